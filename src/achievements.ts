@@ -0,0 +1,246 @@
+import * as vscode from 'vscode';
+import { BreakType, SessionHistory, SessionRecord, getDateKey, isHarvest } from './history';
+import { BUILT_IN_SPECIES, DEFAULT_SPECIES } from './species';
+import { quarantine } from './quarantine';
+
+export const ACHIEVEMENTS_KEY = 'achievements';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// What happened in the garden; achievements are checked whenever one of these comes in
+export type GardenEvent =
+    | { type: 'harvest'; record: SessionRecord }
+    | { type: 'breakTaken'; breakType: BreakType }
+    | { type: 'breakSkipped'; breakType: BreakType }
+    | { type: 'purchase'; item: string };
+
+// Counters for achievements the session history can't answer on its own
+interface AchievementProgress {
+    unlocked: Record<string, number>;   // achievement id -> epoch ms it was earned
+    trackingSince: number;
+    lastSkippedBreakAt?: number;
+    breaksSinceSkip: number;
+    purchases: number;
+}
+
+interface AchievementCheck {
+    event: GardenEvent;
+    records: readonly SessionRecord[];
+    progress: AchievementProgress;
+}
+
+export interface Achievement {
+    id: string;          // also the id of its badge sprite
+    name: string;
+    description: string;
+}
+
+interface AchievementDefinition extends Achievement {
+    earned(check: AchievementCheck): boolean;
+}
+
+function harvests(records: readonly SessionRecord[]): SessionRecord[] {
+    return records.filter(isHarvest);
+}
+
+// Harvests on the same day as the session that just finished
+function harvestsThatDay(check: AchievementCheck): SessionRecord[] {
+    if (check.event.type !== 'harvest') return [];
+    const day = getDateKey(check.event.record.endedAt);
+    return harvests(check.records).filter(r => getDateKey(r.endedAt) === day);
+}
+
+function harvestedRecord(check: AchievementCheck): SessionRecord | undefined {
+    return check.event.type === 'harvest' ? check.event.record : undefined;
+}
+
+function hasDayStreak(records: readonly SessionRecord[], days: number): boolean {
+    const harvestDays = new Set(harvests(records).map(r => getDateKey(r.endedAt)));
+    const date = new Date();
+    for (let i = 0; i < days; i++) {
+        if (!harvestDays.has(getDateKey(date))) return false;
+        date.setDate(date.getDate() - 1);
+    }
+    return true;
+}
+
+export const ACHIEVEMENTS: readonly AchievementDefinition[] = [
+    {
+        id: 'first-harvest',
+        name: 'First Harvest',
+        description: 'Harvest your first plant',
+        earned: (check) => harvests(check.records).length >= 1
+    },
+    {
+        id: 'laser-focus',
+        name: 'Laser Focus',
+        description: 'Finish a session without the editor losing focus once',
+        earned: (check) => harvestedRecord(check)?.focusLossPauses === 0
+    },
+    {
+        id: 'night-owl',
+        name: 'Night Owl',
+        description: 'Harvest a plant after 10pm',
+        earned: (check) => {
+            const record = harvestedRecord(check);
+            const hour = record ? new Date(record.endedAt).getHours() : 12;
+            return hour >= 22 || hour < 4;
+        }
+    },
+    {
+        id: 'first-purchase',
+        name: 'Market Day',
+        description: 'Buy something in the shop',
+        earned: (check) => check.progress.purchases >= 1
+    },
+    {
+        id: 'early-bird',
+        name: 'Early Bird',
+        description: 'Finish five sessions before noon in one day',
+        earned: (check) => harvestsThatDay(check).filter(r => new Date(r.endedAt).getHours() < 12).length >= 5
+    },
+    {
+        id: 'well-rested',
+        name: 'Well Rested',
+        description: 'Go a week without skipping a break',
+        earned: (check) => check.event.type === 'breakTaken' && check.progress.breaksSinceSkip >= 7 &&
+            Date.now() - (check.progress.lastSkippedBreakAt ?? check.progress.trackingSince) >= 7 * DAY_MS
+    },
+    {
+        id: 'marathon',
+        name: 'Marathon',
+        description: 'Harvest four hours of focus in one day',
+        earned: (check) => harvestsThatDay(check).reduce((sum, r) => sum + r.focusSeconds, 0) >= 4 * 60 * 60
+    },
+    {
+        id: 'on-a-roll',
+        name: 'On a Roll',
+        description: 'Harvest something seven days in a row',
+        earned: (check) => check.event.type === 'harvest' && hasDayStreak(check.records, 7)
+    },
+    {
+        id: 'bumper-crop',
+        name: 'Bumper Crop',
+        description: 'Harvest ten plants in one day',
+        earned: (check) => harvestsThatDay(check).length >= 10
+    },
+    {
+        id: 'green-thumb',
+        name: 'Green Thumb',
+        description: 'Harvest every built-in species',
+        earned: (check) => {
+            const grown = new Set(harvests(check.records).map(r => r.species ?? DEFAULT_SPECIES));
+            return BUILT_IN_SPECIES.every(s => grown.has(s.id));
+        }
+    },
+    {
+        id: 'centurion',
+        name: 'Centurion',
+        description: 'Harvest 100 plants',
+        earned: (check) => harvests(check.records).length >= 100
+    }
+];
+
+function createProgress(): AchievementProgress {
+    return { unlocked: {}, trackingSince: Date.now(), breaksSinceSkip: 0, purchases: 0 };
+}
+
+function isCount(value: unknown): boolean {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isAchievementProgress(value: unknown): value is AchievementProgress {
+    const progress = value as AchievementProgress;
+    return typeof progress === 'object' && progress !== null &&
+        typeof progress.unlocked === 'object' && progress.unlocked !== null && !Array.isArray(progress.unlocked) &&
+        Object.values(progress.unlocked).every(isCount) &&
+        isCount(progress.trackingSince) &&
+        (progress.lastSkippedBreakAt === undefined || isCount(progress.lastSkippedBreakAt)) &&
+        isCount(progress.breaksSinceSkip) && isCount(progress.purchases);
+}
+
+export class Achievements implements vscode.Disposable {
+    private _progress = createProgress();
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor(private readonly _context: vscode.ExtensionContext, private readonly _history: SessionHistory) {
+        this._load();
+    }
+
+    public dispose() {
+        this._onDidChange.dispose();
+    }
+
+    // Re-read progress after it was replaced from outside (e.g. a restored backup)
+    public reload() {
+        this._load();
+        this._onDidChange.fire();
+    }
+
+    // Every achievement, with when it was earned if it has been
+    public getAll(): (Achievement & { unlockedAt?: number })[] {
+        return ACHIEVEMENTS.map(({ id, name, description }) => ({ id, name, description, unlockedAt: this._progress.unlocked[id] }));
+    }
+
+    public record(event: GardenEvent) {
+        const progress = this._progress;
+        if (event.type === 'breakSkipped') {
+            progress.lastSkippedBreakAt = Date.now();
+            progress.breaksSinceSkip = 0;
+        } else if (event.type === 'breakTaken') {
+            progress.breaksSinceSkip++;
+        } else if (event.type === 'purchase') {
+            progress.purchases++;
+        }
+
+        const earned = this._check(event);
+        this._save();
+        if (earned.length && vscode.workspace.getConfiguration('pomodoroPlants').get('showNotifications', true)) {
+            for (const achievement of earned) {
+                vscode.window.showInformationMessage(`🏆 Achievement unlocked: ${achievement.name}! ${achievement.description}.`);
+            }
+        }
+    }
+
+    private _check(event: GardenEvent): Achievement[] {
+        const check: AchievementCheck = { event, records: this._history.getAll(), progress: this._progress };
+        const earned = ACHIEVEMENTS.filter(a => this._progress.unlocked[a.id] === undefined && a.earned(check));
+        for (const achievement of earned) {
+            this._progress.unlocked[achievement.id] = Date.now();
+        }
+        return earned;
+    }
+
+    private _load() {
+        const saved = this._context.globalState.get<unknown>(ACHIEVEMENTS_KEY);
+        if (isAchievementProgress(saved)) {
+            this._progress = saved;
+            return;
+        }
+        if (saved !== undefined) {
+            // Earned again from the history below, though counters the history can't answer start over
+            quarantine(this._context, ACHIEVEMENTS_KEY, 'achievement progress is damaged', saved);
+            vscode.window.showWarningMessage(
+                '🏆 Your saved achievements were damaged and set aside. ' +
+                'They can be inspected with "Pomodoro Plants: Show Quarantined Data".'
+            );
+        }
+        this._progress = createProgress();
+        this._backfill();
+    }
+
+    // Gardens older than achievements get what their history already shows, without a flood of toasts
+    private _backfill() {
+        for (const record of harvests(this._history.getAll())) {
+            this._check({ type: 'harvest', record });
+        }
+        this._save();
+    }
+
+    private _save() {
+        this._context.globalState.update(ACHIEVEMENTS_KEY, this._progress);
+        this._onDidChange.fire();
+    }
+}
@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+
+// Seconds of a focus session spent with one file active in the editor
+export interface FileFocus {
+    file: string;
+    languageId: string;
+    seconds: number;
+}
+
+export function isFileFocus(value: unknown): value is FileFocus {
+    const entry = value as FileFocus;
+    return typeof entry === 'object' && entry !== null &&
+        typeof entry.file === 'string' && typeof entry.languageId === 'string' &&
+        Number.isInteger(entry.seconds) && entry.seconds >= 0;
+}
+
+const LANGUAGE_NAMES: Record<string, string> = {
+    typescript: 'TypeScript',
+    typescriptreact: 'TSX',
+    javascript: 'JavaScript',
+    javascriptreact: 'JSX',
+    json: 'JSON',
+    jsonc: 'JSON',
+    yaml: 'YAML',
+    markdown: 'Markdown',
+    html: 'HTML',
+    css: 'CSS',
+    scss: 'SCSS',
+    python: 'Python',
+    go: 'Go',
+    rust: 'Rust',
+    java: 'Java',
+    csharp: 'C#',
+    cpp: 'C++',
+    c: 'C',
+    shellscript: 'Shell',
+    sql: 'SQL',
+    plaintext: 'Plain Text'
+};
+
+export function getLanguageName(languageId: string): string {
+    return LANGUAGE_NAMES[languageId] ?? languageId.charAt(0).toUpperCase() + languageId.slice(1);
+}
+
+// Credit one focused second to whichever file is active, if any
+export function addFocusSecond(files: FileFocus[]) {
+    const document = vscode.window.activeTextEditor?.document;
+    if (!document) return;
+
+    const file = document.isUntitled ? document.fileName : vscode.workspace.asRelativePath(document.uri);
+    const entry = files.find(f => f.file === file);
+    if (entry) {
+        entry.seconds++;
+        entry.languageId = document.languageId;
+    } else {
+        files.push({ file, languageId: document.languageId, seconds: 1 });
+    }
+}
+
+// Seconds per language, largest first
+export function summarizeLanguages(files: readonly FileFocus[]): [string, number][] {
+    const totals = new Map<string, number>();
+    for (const entry of files) {
+        const name = getLanguageName(entry.languageId);
+        totals.set(name, (totals.get(name) || 0) + entry.seconds);
+    }
+    return [...totals.entries()].sort((a, b) => b[1] - a[1]);
+}
+
+// "40% TypeScript, 30% YAML, 30% Markdown"
+export function formatLanguageShare(files: readonly FileFocus[], limit: number = 3): string {
+    const languages = summarizeLanguages(files);
+    const total = languages.reduce((sum, [, seconds]) => sum + seconds, 0);
+    if (total === 0) return '';
+    return languages
+        .slice(0, limit)
+        .map(([name, seconds]) => `${Math.round((seconds / total) * 100)}% ${name}`)
+        .join(', ');
+}
@@ -0,0 +1,83 @@
+// The farmer in the break scenes, dressed by the avatar customizer
+export interface Avatar {
+    hat: string;         // key of AVATAR_OPTIONS.hat
+    hair: string;
+    skin: string;
+    shirt: string;
+    overalls: string;
+    accessory: string;
+}
+
+export type AvatarPart = keyof Avatar;
+
+// Colors each part can be dressed in, by name; classic keeps the scene sprite's own colors.
+// A hat of "none" shows the farmer's hair in its place, and accessories are drawn over the
+// farmer: glasses on the face, a flower on the hat and a scarf over the collar.
+export const AVATAR_OPTIONS: Record<AvatarPart, Record<string, string>> = {
+    hat: {
+        classic: '',
+        straw: '#e4c86a',
+        denim: '#4a6fa5',
+        red: '#c0392b',
+        green: '#3a6d32',
+        black: '#2a2a2a',
+        none: ''
+    },
+    hair: {
+        classic: '',
+        brown: '#6b4423',
+        black: '#2a1a12',
+        blonde: '#e4c86a',
+        red: '#b5502a',
+        grey: '#a0a0a0'
+    },
+    skin: {
+        classic: '',
+        light: '#f6d5bd',
+        tan: '#c68e65',
+        brown: '#8d5a3b',
+        deep: '#5c3a24'
+    },
+    shirt: {
+        classic: '',
+        blue: '#4a8cc4',
+        green: '#4a8c3f',
+        yellow: '#f4c430',
+        purple: '#8e44ad',
+        white: '#efe6c8'
+    },
+    overalls: {
+        classic: '',
+        brown: '#7b5a3a',
+        green: '#3a6d32',
+        red: '#a83939',
+        grey: '#6a6a7a',
+        black: '#2a2a2a'
+    },
+    accessory: {
+        none: '',
+        glasses: '#1a1a1a',
+        flower: '#f48fb1',
+        scarf: '#f4d03f'
+    }
+};
+
+export const DEFAULT_AVATAR: Avatar = {
+    hat: 'classic',
+    hair: 'classic',
+    skin: 'classic',
+    shirt: 'classic',
+    overalls: 'classic',
+    accessory: 'none'
+};
+
+export function isAvatarPart(value: unknown): value is AvatarPart {
+    return typeof value === 'string' && Object.hasOwn(AVATAR_OPTIONS, value);
+}
+
+export function isAvatar(value: unknown): value is Avatar {
+    const avatar = value as Record<string, unknown>;
+    return typeof avatar === 'object' && avatar !== null &&
+        (Object.keys(AVATAR_OPTIONS) as AvatarPart[]).every(part =>
+            typeof avatar[part] === 'string' && Object.hasOwn(AVATAR_OPTIONS[part], avatar[part] as string));
+}
@@ -0,0 +1,282 @@
+import * as vscode from 'vscode';
+import { DELETED_SESSIONS_KEY, HISTORY_KEY, SessionHistory, getDateKey } from './history';
+import { PlantViewProvider } from './plantViewProvider';
+import { GARDEN_STATE_KEY } from './gardenState';
+import { QUARANTINE_KEY } from './quarantine';
+import { ACHIEVEMENTS_KEY } from './achievements';
+import { getDesignFolder } from './spriteLibrary';
+
+const BACKUP_FORMAT = 'pomodoro-plants-backup';
+// v1 had no sprite designs
+const BACKUP_VERSION = 2;
+
+// Every globalState key that makes up the garden. The shop inventory, the farmer's avatar
+// and the quests are part of the garden state.
+const BACKUP_KEYS = [GARDEN_STATE_KEY, HISTORY_KEY, DELETED_SESSIONS_KEY, QUARANTINE_KEY, ACHIEVEMENTS_KEY];
+
+// Design file names are written back into the design folder, so none with a path in them
+const DESIGN_FILE = /^[^\\/]+\.json$/;
+
+interface GardenBackup {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    createdAt: string;
+    state: Record<string, unknown>;
+    settings: Record<string, unknown>;
+    designs?: Record<string, unknown>;  // sprite editor designs by file name; absent from v1 backups
+}
+
+function getBackupFolder(context: vscode.ExtensionContext): vscode.Uri {
+    return vscode.Uri.joinPath(context.globalStorageUri, 'backups');
+}
+
+function getSettingSchemas(context: vscode.ExtensionContext): Record<string, { type?: string }> {
+    return context.extension.packageJSON.contributes?.configuration?.properties ?? {};
+}
+
+// Only values the user actually set, so restoring doesn't pin today's defaults
+function snapshotSettings(context: vscode.ExtensionContext): Record<string, unknown> {
+    const config = vscode.workspace.getConfiguration('pomodoroPlants');
+    const properties = Object.keys(getSettingSchemas(context));
+    const settings: Record<string, unknown> = {};
+    for (const property of properties) {
+        const key = property.replace(/^pomodoroPlants\./, '');
+        const value = config.inspect(key)?.globalValue;
+        if (value !== undefined) {
+            settings[key] = value;
+        }
+    }
+    return settings;
+}
+
+async function listDesignFiles(context: vscode.ExtensionContext): Promise<string[]> {
+    try {
+        return (await vscode.workspace.fs.readDirectory(getDesignFolder(context)))
+            .filter(([file, type]) => type === vscode.FileType.File && DESIGN_FILE.test(file))
+            .map(([file]) => file);
+    } catch {
+        return [];  // Nothing designed yet
+    }
+}
+
+// Designs saved in the sprite pack folder are left out: that folder is the user's own and
+// usually shared through a repository already
+async function snapshotDesigns(context: vscode.ExtensionContext): Promise<Record<string, unknown>> {
+    const designs: Record<string, unknown> = {};
+    for (const file of await listDesignFiles(context)) {
+        try {
+            const data = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(getDesignFolder(context), file));
+            designs[file] = JSON.parse(Buffer.from(data).toString('utf8'));
+        } catch {
+            // The sprite library skips unreadable designs too
+        }
+    }
+    return designs;
+}
+
+async function createBackup(context: vscode.ExtensionContext): Promise<GardenBackup> {
+    const state: Record<string, unknown> = {};
+    for (const key of BACKUP_KEYS) {
+        state[key] = context.globalState.get(key);
+    }
+    return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        createdAt: new Date().toISOString(),
+        state,
+        settings: snapshotSettings(context),
+        designs: await snapshotDesigns(context)
+    };
+}
+
+// Replaces the designs with the backup's; the sprite library checks them again as it reloads
+async function restoreDesigns(context: vscode.ExtensionContext, designs: Record<string, unknown>) {
+    const folder = getDesignFolder(context);
+    await vscode.workspace.fs.createDirectory(folder);
+    for (const file of await listDesignFiles(context)) {
+        if (!(file in designs)) {
+            await vscode.workspace.fs.delete(vscode.Uri.joinPath(folder, file));
+        }
+    }
+    for (const [file, design] of Object.entries(designs)) {
+        if (DESIGN_FILE.test(file)) {
+            await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(folder, file), Buffer.from(JSON.stringify(design, null, 2), 'utf8'));
+        }
+    }
+}
+
+// Settings this version doesn't have, or whose value is the wrong type, are left alone on restore
+function isRestorableSetting(context: vscode.ExtensionContext, key: string, value: unknown): boolean {
+    const type = getSettingSchemas(context)[`pomodoroPlants.${key}`]?.type;
+    switch (type) {
+        case undefined: return false;
+        case 'integer': return Number.isInteger(value);
+        case 'array': return Array.isArray(value);
+        case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+        default: return typeof value === type;
+    }
+}
+
+function serialize(backup: GardenBackup): Uint8Array {
+    return Buffer.from(JSON.stringify(backup, null, 2), 'utf8');
+}
+
+function parseBackup(text: string): GardenBackup {
+    const data = JSON.parse(text);
+    if (data?.format !== BACKUP_FORMAT) {
+        throw new Error('not a Pomodoro Plants backup');
+    }
+    if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+        throw new Error(`backup version ${data.version} is newer than this extension supports`);
+    }
+    if (typeof data.state !== 'object' || data.state === null || Array.isArray(data.state)) {
+        throw new Error('backup has no garden state');
+    }
+    if (data.settings !== undefined && (typeof data.settings !== 'object' || data.settings === null || Array.isArray(data.settings))) {
+        throw new Error('backup settings are not an object');
+    }
+    if (data.designs !== undefined && (typeof data.designs !== 'object' || data.designs === null || Array.isArray(data.designs))) {
+        throw new Error('backup sprite designs are not an object');
+    }
+    return { ...data, settings: data.settings ?? {} };
+}
+
+async function writeBackup(context: vscode.ExtensionContext, name: string): Promise<vscode.Uri> {
+    const folder = getBackupFolder(context);
+    await vscode.workspace.fs.createDirectory(folder);
+    const uri = vscode.Uri.joinPath(folder, name);
+    await vscode.workspace.fs.writeFile(uri, serialize(await createBackup(context)));
+    return uri;
+}
+
+// One automatic backup per day, keeping the newest `autoBackupCount`
+export async function runAutoBackup(context: vscode.ExtensionContext) {
+    const keep = vscode.workspace.getConfiguration('pomodoroPlants').get('autoBackupCount', 7);
+    if (keep <= 0) return;
+
+    const folder = getBackupFolder(context);
+    const name = `auto-${getDateKey()}.json`;
+    let existing: [string, vscode.FileType][] = [];
+    try {
+        existing = await vscode.workspace.fs.readDirectory(folder);
+    } catch {
+        // No backups yet
+    }
+    if (!existing.some(([file]) => file === name)) {
+        await writeBackup(context, name);
+        existing.push([name, vscode.FileType.File]);
+    }
+
+    const autos = existing.map(([file]) => file).filter(file => file.startsWith('auto-')).sort();
+    for (const file of autos.slice(0, Math.max(0, autos.length - keep))) {
+        await vscode.workspace.fs.delete(vscode.Uri.joinPath(folder, file));
+    }
+}
+
+export async function backupGarden(context: vscode.ExtensionContext) {
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(`pomodoro-garden-${getDateKey()}.json`),
+        filters: { 'Garden backup': ['json'] }
+    });
+    if (!uri) return;
+
+    await vscode.workspace.fs.writeFile(uri, serialize(await createBackup(context)));
+    vscode.window.showInformationMessage(`🌱 Garden backed up to ${uri.fsPath}`);
+}
+
+async function pickBackupFile(context: vscode.ExtensionContext): Promise<vscode.Uri | undefined> {
+    const folder = getBackupFolder(context);
+    let files: string[] = [];
+    try {
+        files = (await vscode.workspace.fs.readDirectory(folder)).map(([file]) => file).filter(f => f.endsWith('.json'));
+    } catch {
+        // No automatic backups yet
+    }
+
+    const items: (vscode.QuickPickItem & { uri?: vscode.Uri })[] = files
+        .sort()
+        .reverse()
+        .map(file => ({
+            label: file.replace(/\.json$/, ''),
+            description: file.startsWith('auto-') ? 'automatic backup' : 'saved before a restore',
+            uri: vscode.Uri.joinPath(folder, file)
+        }));
+    items.push({ label: '$(folder-opened) Browse…' });
+
+    const choice = await vscode.window.showQuickPick(items, { title: 'Restore garden from…' });
+    if (!choice) return undefined;
+    if (choice.uri) return choice.uri;
+
+    const uris = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { 'Garden backup': ['json'] }
+    });
+    return uris?.[0];
+}
+
+function countSessions(backup: GardenBackup): number {
+    const history = backup.state[HISTORY_KEY];
+    return Array.isArray(history) ? history.length : 0;
+}
+
+export async function restoreGarden(
+    context: vscode.ExtensionContext,
+    history: SessionHistory,
+    provider: PlantViewProvider
+) {
+    const uri = await pickBackupFile(context);
+    if (!uri) return;
+
+    let backup: GardenBackup;
+    try {
+        backup = parseBackup(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'));
+    } catch (error) {
+        vscode.window.showErrorMessage(`Could not read ${uri.fsPath}: ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+
+    // Show what would change, with both sides formatted identically
+    const current = await createBackup(context);
+    const previewFolder = vscode.Uri.joinPath(context.globalStorageUri, 'restore-preview');
+    await vscode.workspace.fs.createDirectory(previewFolder);
+    const currentUri = vscode.Uri.joinPath(previewFolder, 'current.json');
+    const backupUri = vscode.Uri.joinPath(previewFolder, 'backup.json');
+    await vscode.workspace.fs.writeFile(currentUri, serialize({ ...current, createdAt: backup.createdAt }));
+    await vscode.workspace.fs.writeFile(backupUri, serialize(backup));
+    await vscode.commands.executeCommand('vscode.diff', currentUri, backupUri, 'Current garden ↔ Backup');
+
+    const restoreAll = 'Restore Garden and Settings';
+    const restoreState = 'Restore Garden Only';
+    const choice = await vscode.window.showWarningMessage(
+        `Restore the backup from ${new Date(backup.createdAt).toLocaleString()}? ` +
+        `It has ${countSessions(backup)} sessions (you have ${countSessions(current)} now). ` +
+        'Your current garden is saved first so this can be undone.',
+        { modal: true },
+        restoreAll,
+        restoreState
+    );
+    if (!choice) return;
+
+    await writeBackup(context, `pre-restore-${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
+
+    // Written back as they are: each key is checked as it loads below, and anything damaged
+    // is quarantined there the same way it would be at startup
+    for (const key of BACKUP_KEYS) {
+        await context.globalState.update(key, backup.state[key]);
+    }
+    if (backup.designs) {
+        await restoreDesigns(context, backup.designs);
+    }
+    if (choice === restoreAll) {
+        const config = vscode.workspace.getConfiguration('pomodoroPlants');
+        for (const [key, value] of Object.entries(backup.settings)) {
+            if (isRestorableSetting(context, key, value)) {
+                await config.update(key, value, vscode.ConfigurationTarget.Global);
+            }
+        }
+    }
+
+    history.reload();
+    provider.reloadState();
+    vscode.window.showInformationMessage('🌱 Garden restored!');
+}
@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+import { getDateKey } from './history';
+
+export interface DateRange {
+    from: string;   // YYYY-MM-DD, inclusive
+    to: string;     // YYYY-MM-DD, inclusive
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function daysAgo(days: number): string {
+    const date = new Date();
+    date.setDate(date.getDate() - days);
+    return getDateKey(date);
+}
+
+function validateDate(value: string): string | undefined {
+    if (!DATE_PATTERN.test(value) || isNaN(new Date(value).getTime())) {
+        return 'Enter a date as YYYY-MM-DD';
+    }
+    return undefined;
+}
+
+async function askDate(prompt: string, value: string): Promise<string | undefined> {
+    return vscode.window.showInputBox({ prompt, value, validateInput: validateDate });
+}
+
+export async function pickDateRange(title: string): Promise<DateRange | undefined> {
+    const today = getDateKey();
+    const presets: (vscode.QuickPickItem & { range?: DateRange })[] = [
+        { label: 'Last 7 days', range: { from: daysAgo(6), to: today } },
+        { label: 'Last 30 days', range: { from: daysAgo(29), to: today } },
+        { label: 'This year', range: { from: `${today.slice(0, 4)}-01-01`, to: today } },
+        { label: 'All time', range: { from: '0000-01-01', to: '9999-12-31' } },
+        { label: 'Custom range…' }
+    ];
+
+    const choice = await vscode.window.showQuickPick(presets, { title, placeHolder: 'Choose a date range' });
+    if (!choice) return undefined;
+    if (choice.range) return choice.range;
+
+    const from = await askDate('Start date (YYYY-MM-DD)', daysAgo(6));
+    if (!from) return undefined;
+    const to = await askDate('End date (YYYY-MM-DD)', today);
+    if (!to) return undefined;
+    return from <= to ? { from, to } : { from: to, to: from };
+}
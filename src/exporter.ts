@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+import { SessionHistory, SessionRecord, isHarvest } from './history';
+import { formatLanguageShare } from './activity';
+import { pickDateRange } from './dateRange';
+
+type ExportFormat = 'csv' | 'json' | 'ics';
+
+// Column order for CSV exports
+export const CSV_COLUMNS: (keyof SessionRecord)[] = [
+    'id',
+    'startedAt',
+    'endedAt',
+    'plannedSeconds',
+    'growSeconds',
+    'focusSeconds',
+    'pauseCount',
+    'focusLossPauses',
+    'files',
+    'outcome',
+    'breakType',
+    'breakSeconds',
+    'breakTaken',
+    'breakScene',
+    'species',
+    'workspace',
+    'folderUri',
+    'branch',
+    'source',
+    'editedAt'
+];
+
+const TIMESTAMP_COLUMNS: (keyof SessionRecord)[] = ['startedAt', 'endedAt', 'editedAt'];
+
+function escapeCsv(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(records: readonly SessionRecord[]): string {
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const record of records) {
+        lines.push(CSV_COLUMNS.map(column => {
+            const value = record[column];
+            // Timestamps are written as ISO strings so spreadsheets can read them
+            if (TIMESTAMP_COLUMNS.includes(column) && typeof value === 'number') {
+                return escapeCsv(new Date(value).toISOString());
+            }
+            // file:language:seconds entries separated by semicolons
+            if (column === 'files') {
+                return escapeCsv(record.files?.map(f => `${f.file}:${f.languageId}:${f.seconds}`).join(';'));
+            }
+            return escapeCsv(value);
+        }).join(','));
+    }
+    return lines.join('\n') + '\n';
+}
+
+export function toJson(records: readonly SessionRecord[]): string {
+    return JSON.stringify({ version: 1, sessions: records }, null, 2);
+}
+
+function formatIcsDate(time: number): string {
+    return new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeIcs(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+}
+
+// RFC 5545 lines must be folded at 75 octets
+function foldIcsLine(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    for (const char of line) {
+        if (Buffer.byteLength(current + char, 'utf8') > 75) {
+            parts.push(current);
+            current = ' ';
+        }
+        current += char;
+    }
+    parts.push(current);
+    return parts.join('\r\n');
+}
+
+function icsEvent(uid: string, start: number, end: number, summary: string, description: string[]): string[] {
+    return [
+        'BEGIN:VEVENT',
+        `UID:${uid}@pomodoro-plants`,
+        `DTSTAMP:${formatIcsDate(Date.now())}`,
+        `DTSTART:${formatIcsDate(start)}`,
+        `DTEND:${formatIcsDate(end)}`,
+        `SUMMARY:${escapeIcs(summary)}`,
+        `DESCRIPTION:${escapeIcs(description.join('\n'))}`,
+        'END:VEVENT'
+    ];
+}
+
+// One VEVENT for each focus session and one for the break that followed it
+export function toICalendar(records: readonly SessionRecord[]): string {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Pomodoro Plants//Focus History//EN',
+        'CALSCALE:GREGORIAN'
+    ];
+
+    for (const record of records) {
+        const details = [
+            `Focus: ${Math.round(record.focusSeconds / 60)} of ${Math.round(record.plannedSeconds / 60)} min`,
+            `Pauses: ${record.pauseCount}`
+        ];
+        if (record.workspace) {
+            details.push(`Workspace: ${record.workspace}`);
+        }
+        if (record.branch) {
+            details.push(`Branch: ${record.branch}`);
+        }
+        if (record.files?.length) {
+            details.push(`Languages: ${formatLanguageShare(record.files, 5)}`);
+        }
+        const summary = isHarvest(record) ? '🍅 Focus session' : '🥀 Abandoned session';
+        lines.push(...icsEvent(record.id, record.startedAt, record.endedAt, summary, details));
+
+        if (record.breakSeconds) {
+            lines.push(...icsEvent(
+                `${record.id}-break`,
+                record.endedAt,
+                record.endedAt + record.breakSeconds * 1000,
+                `☕ ${record.breakType === 'long' ? 'Long' : 'Short'} break`,
+                [`Scene: ${record.breakScene ?? 'none'}`]
+            ));
+        }
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+const FORMATS: (vscode.QuickPickItem & { format: ExportFormat })[] = [
+    { label: 'CSV', description: 'Spreadsheets and timesheets', format: 'csv' },
+    { label: 'JSON', description: 'Full session records', format: 'json' },
+    { label: 'iCalendar (.ics)', description: 'One event per session and break', format: 'ics' }
+];
+
+export async function exportHistory(history: SessionHistory) {
+    const range = await pickDateRange('Export focus history');
+    if (!range) return;
+
+    const records = history.getBetween(range.from, range.to);
+    if (records.length === 0) {
+        vscode.window.showInformationMessage('🌱 No sessions recorded in that range yet.');
+        return;
+    }
+
+    const choice = await vscode.window.showQuickPick(FORMATS, { title: 'Export format' });
+    if (!choice) return;
+
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(`pomodoro-history.${choice.format}`),
+        filters: { [choice.label]: [choice.format] }
+    });
+    if (!uri) return;
+
+    let content: string;
+    switch (choice.format) {
+        case 'csv':
+            content = toCsv(records);
+            break;
+        case 'json':
+            content = toJson(records);
+            break;
+        case 'ics':
+            content = toICalendar(records);
+            break;
+    }
+
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+    vscode.window.showInformationMessage(`🍅 Exported ${records.length} sessions to ${uri.fsPath}`);
+}
@@ -1,13 +1,53 @@
 import * as vscode from 'vscode';
 import { PlantViewProvider } from './plantViewProvider';
+import { SessionHistory } from './history';
+import { StatsPanel } from './statsPanel';
+import { exportHistory } from './exporter';
+import { importHistory } from './importer';
+import { showReport } from './report';
+import { GardenSync } from './sync';
+import { backupGarden, restoreGarden, runAutoBackup } from './backup';
+import { showQuarantine } from './quarantine';
+import { ProjectTracker } from './project';
+import { HistoryEditorPanel } from './historyEditor';
+import { TeamGarden } from './teamGarden';
+import { SpriteLibrary } from './spriteLibrary';
+import { SpriteEditorPanel } from './spriteEditor';
+import { Achievements } from './achievements';
 
 let plantViewProvider: PlantViewProvider;
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Pomodoro Plants is now active! 🌱');
 
+    // Completed sessions are kept in a durable history log
+    const history = new SessionHistory(context);
+
+    // History and garden progress are merged across machines via Settings Sync
+    const sync = new GardenSync(context, history);
+
+    // Sessions are tagged with the workspace folder and git branch they happened in
+    const project = new ProjectTracker();
+    context.subscriptions.push(project);
+
+    // Opt-in communal garden kept in a file committed to the repository
+    const team = new TeamGarden();
+    context.subscriptions.push(team);
+
+    // Plant and break scene art, including custom sprite packs
+    const sprites = new SpriteLibrary(context);
+    context.subscriptions.push(sprites);
+
+    // Badges earned from session events, shown on the trophy shelf
+    const achievements = new Achievements(context, history);
+    context.subscriptions.push(achievements);
+
     // Create the plant view provider
-    plantViewProvider = new PlantViewProvider(context.extensionUri, context);
+    plantViewProvider = new PlantViewProvider(context.extensionUri, context, history, sync, project, team, sprites, achievements);
+    sync.pull();
+
+    // Rolling daily backups guard against corruption and accidental resets
+    runAutoBackup(context).catch((error) => console.error('Pomodoro Plants: automatic backup failed', error));
 
     // Register the webview view provider
     context.subscriptions.push(
@@ -24,6 +64,9 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Register commands
     context.subscriptions.push(
+        vscode.commands.registerCommand('pomodoroPlants.chooseSeed', () => {
+            plantViewProvider.pickSeed();
+        }),
         vscode.commands.registerCommand('pomodoroPlants.startTimer', () => {
             plantViewProvider.startTimer();
         }),
@@ -38,6 +81,33 @@ export function activate(context: vscode.ExtensionContext) {
         }),
         vscode.commands.registerCommand('pomodoroPlants.openSettings', () => {
             vscode.commands.executeCommand('workbench.action.openSettings', 'pomodoroPlants');
+        }),
+        vscode.commands.registerCommand('pomodoroPlants.showStats', () => {
+            StatsPanel.createOrShow(history);
+        }),
+        vscode.commands.registerCommand('pomodoroPlants.exportHistory', () => {
+            exportHistory(history);
+        }),
+        vscode.commands.registerCommand('pomodoroPlants.importHistory', () => {
+            importHistory(history);
+        }),
+        vscode.commands.registerCommand('pomodoroPlants.showReport', () => {
+            showReport(history);
+        }),
+        vscode.commands.registerCommand('pomodoroPlants.editHistory', () => {
+            HistoryEditorPanel.createOrShow(history);
+        }),
+        vscode.commands.registerCommand('pomodoroPlants.backupGarden', () => {
+            backupGarden(context);
+        }),
+        vscode.commands.registerCommand('pomodoroPlants.restoreGarden', () => {
+            restoreGarden(context, history, plantViewProvider);
+        }),
+        vscode.commands.registerCommand('pomodoroPlants.showQuarantine', () => {
+            showQuarantine(context);
+        }),
+        vscode.commands.registerCommand('pomodoroPlants.designPlant', () => {
+            SpriteEditorPanel.createOrShow(sprites);
         })
     );
 
@@ -47,13 +117,34 @@ export function activate(context: vscode.ExtensionContext) {
             if (e.affectsConfiguration('pomodoroPlants')) {
                 plantViewProvider.reloadSettings();
             }
+            if (e.affectsConfiguration('pomodoroPlants.syncAcrossMachines')) {
+                sync.updateSyncKeys();
+                sync.pull();
+            }
+            if (e.affectsConfiguration('pomodoroPlants.teamGarden') ||
+                e.affectsConfiguration('pomodoroPlants.teamGardenFile') ||
+                e.affectsConfiguration('pomodoroPlants.teamMemberName')) {
+                team.reloadSettings();
+            }
+            if (e.affectsConfiguration('pomodoroPlants.spritePackFolder')) {
+                sprites.reloadSettings();
+            }
         })
     );
 
+    // Team garden watchers are per workspace folder
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeWorkspaceFolders(() => team.reloadSettings())
+    );
+
     // Track window focus for auto-pause/resume
     context.subscriptions.push(
         vscode.window.onDidChangeWindowState((state) => {
             plantViewProvider.handleWindowFocusChange(state.focused);
+            // Pick up anything Settings Sync brought in while we were away
+            if (state.focused) {
+                sync.pull();
+            }
         })
     );
 }
@@ -0,0 +1,96 @@
+import { SessionRecord, getDateKey } from './history';
+import { getProjectName } from './project';
+import { getSpecies, getStageIndex } from './species';
+import { PlantHealth, getPlantHealth, getSessionProgress } from './health';
+import { Genes, describeGenes } from './genetics';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// A plant left in its own plot for good: fully grown if it was harvested,
+// wilted or dead at the stage it reached if the session was abandoned
+export interface GardenPlot {
+    id: string;
+    species: string;     // drawn as a tomato if the species is no longer installed
+    stage: string;
+    health: PlantHealth;
+    genes?: Genes;       // absent for the wild type
+    traits: string;      // e.g. "purple fruit, tall (120%)"
+    name: string;        // species name, e.g. "Sunflower"
+    progress: number;    // share of the session that was grown, 0-1
+    grownAt: string;     // e.g. "09:40 – 10:05"
+    took: string;        // e.g. "25m focus over 31m"
+    project: string;
+    branch?: string;
+}
+
+export interface GardenDay {
+    date: string;        // date key
+    label: string;       // "Today", "Yesterday" or e.g. "Mon 2024-03-04"
+    plots: GardenPlot[];
+}
+
+function pad(value: number): string {
+    return value.toString().padStart(2, '0');
+}
+
+function formatTime(time: number): string {
+    const date = new Date(time);
+    return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function formatMinutes(seconds: number): string {
+    const minutes = Math.round(seconds / 60);
+    const hours = Math.floor(minutes / 60);
+    return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+function formatDayLabel(key: string): string {
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+    if (key === getDateKey()) return 'Today';
+    if (key === getDateKey(yesterday)) return 'Yesterday';
+    const [year, month, day] = key.split('-').map(Number);
+    return `${WEEKDAYS[new Date(year, month - 1, day).getDay()]} ${key}`;
+}
+
+function toPlot(record: SessionRecord): GardenPlot {
+    const species = getSpecies(record.species);
+    const health = getPlantHealth(record);
+    const progress = getSessionProgress(record);
+    const stage = health === 'healthy' ? species.stages.length - 1 : getStageIndex(species, progress);
+    return {
+        id: record.id,
+        species: species.id,
+        stage: species.stages[stage].name,
+        health,
+        genes: record.genes,
+        traits: describeGenes(record.genes),
+        name: species.name,
+        progress,
+        grownAt: `${formatTime(record.startedAt)} – ${formatTime(record.endedAt)}`,
+        took: `${formatMinutes(record.focusSeconds)} focus over ${formatMinutes((record.endedAt - record.startedAt) / 1000)}`,
+        project: getProjectName(record),
+        branch: record.branch
+    };
+}
+
+// Abandoned before anything came up, so there is nothing to leave in the garden
+function isBareSoil(record: SessionRecord): boolean {
+    const species = getSpecies(record.species);
+    return getStageIndex(species, getSessionProgress(record)) === 0;
+}
+
+// Every session ever grown, one plot each, grouped by day with the newest day first.
+// The garden is derived from the session history, so edits, imports and synced sessions show up in it.
+export function buildGarden(records: readonly SessionRecord[], project?: string): GardenDay[] {
+    const days = new Map<string, GardenPlot[]>();
+    for (const record of records) {
+        if ((project && getProjectName(record) !== project) || (getPlantHealth(record) !== 'healthy' && isBareSoil(record))) continue;
+        const key = getDateKey(record.endedAt);
+        if (!days.has(key)) days.set(key, []);
+        days.get(key)!.push(toPlot(record));
+    }
+    return [...days.entries()]
+        .sort(([a], [b]) => b.localeCompare(a))
+        .map(([date, plots]) => ({ date, label: formatDayLabel(date), plots }));
+}
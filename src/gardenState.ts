@@ -0,0 +1,260 @@
+import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
+import { FileFocus, isFileFocus } from './activity';
+import { ProjectTag } from './project';
+import { getDateKey } from './history';
+import { DEFAULT_SPECIES, isSpeciesId } from './species';
+import { MAX_SOIL_MOISTURE, isSoilMoisture } from './health';
+import { Inventory, LedgerEntry, SHOP_ITEMS, createDefaultInventory, isInventory, isUnlocked } from './shop';
+import { QuestBoard, createQuestBoard, isQuestBoard } from './quests';
+import { BredSeed, isBredSeed } from './genetics';
+import { Avatar, DEFAULT_AVATAR, isAvatar } from './avatar';
+import { quarantine } from './quarantine';
+
+export const GARDEN_STATE_KEY = 'gardenState';
+
+// Bump when GardenState changes shape, and add a migration from the previous version
+export const GARDEN_STATE_VERSION = 10;
+
+// Scenes are stored by index, so new ones go at the end
+export const BREAK_SCENES = ['hayBale', 'lemonade', 'fishing', 'treeNap', 'campfire', 'stargazing'] as const;
+
+export interface GardenState {
+    schemaVersion: number;
+    lastResetDate: string;
+    currentSessionSeconds: number;
+    isTimerRunning: boolean;
+    sessionStartedAt?: number;
+    pauseCount: number;
+    focusLossPauses: number;
+    fileFocus: FileFocus[];
+    sessionProject?: ProjectTag;
+    projectFilter?: string;
+    species: string;         // seed planted for the current (or next) session
+    plantedSeed?: string;    // id of the bred seed planted, if it isn't a wild one
+    bredSeeds: BredSeed[];   // seeds from cross-pollinating, waiting to be planted
+    soilMoisture: number;    // entry of SOIL_LEVELS; skipped breaks dry it, full breaks water it
+    inventory: Inventory;    // what was bought in the shop with harvested fruit
+    quests: QuestBoard;      // today's and this week's quests, redrawn by the day change check
+    avatar: Avatar;          // how the farmer in the break scenes is dressed
+    completedSessions: number;
+    isOnBreak: boolean;
+    breakSession?: string;   // id of the harvested session the current break follows
+    breakSecondsRemaining: number;
+    currentBreakScene: number;
+    nextBreakScene: number;
+}
+
+type RawState = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version n object to version n + 1
+const MIGRATIONS: Record<number, (state: RawState) => RawState> = {
+    // v1 (unversioned) kept a daily fruitsCollected counter; fruit now comes from the session history.
+    // The counted fruit is carried along until the shop (v5) can pay it out as bonus fruit.
+    1: ({ fruitsCollected, ...state }) => ({ ...state, carriedFruit: isCount(fruitsCollected) ? fruitsCollected : 0 }),
+    // v2 only grew tomatoes
+    2: (state) => ({ ...state, species: DEFAULT_SPECIES }),
+    // v3 had no plant health; everyone starts with watered soil
+    3: (state) => ({ ...state, soilMoisture: MAX_SOIL_MOISTURE }),
+    // v4 had every seed for free, so existing gardens keep them (and had spent nothing)
+    4: (state) => ({
+        ...state,
+        inventory: { ...createDefaultInventory(), owned: SHOP_ITEMS.filter(item => item.kind === 'seed').map(item => item.id) }
+    }),
+    // v5 had no quests, so no bonus fruit besides what v1 counted; the quest board itself starts
+    // empty and is drawn on load
+    5: ({ carriedFruit, ...state }) => isObject(state.inventory)
+        ? { ...state, inventory: { ...state.inventory, bonus: carriedFruit ?? 0 } }
+        : state,
+    // v6 had no plant genetics
+    6: (state) => ({ ...state, bredSeeds: [] }),
+    // v7 had the same farmer for everyone
+    7: (state) => ({ ...state, avatar: { ...DEFAULT_AVATAR } }),
+    // v8 didn't remember which session a break followed, so a break in progress isn't marked
+    8: (state) => state,
+    // v9 kept fruit spent and quest bonuses as per-machine totals. They become ledger entries,
+    // with an entry for each owned item so other machines learn about the purchases too.
+    // A damaged inventory is left for validation to reset.
+    9: (state) => {
+        if (!isObject(state.inventory)) return state;
+        const { spent, bonus, ...inventory } = state.inventory;
+        const at = Date.now();
+        const ledger: LedgerEntry[] = [
+            ...(Array.isArray(inventory.owned) ? inventory.owned as string[] : []).map(item => ({ id: randomUUID(), at, fruit: 0, item })),
+            { id: randomUUID(), at, fruit: -((spent as number | undefined) ?? 0) },
+            { id: randomUUID(), at, fruit: (bonus as number | undefined) ?? 0 }
+        ];
+        return { ...state, inventory: { ...inventory, ledger: ledger.filter(entry => entry.fruit !== 0 || entry.item) } };
+    }
+};
+
+// Picks among the scenes that are free or bought in the shop
+export function randomBreakScene(inventory: Inventory = createDefaultInventory()): number {
+    const unlocked = getUnlockedBreakScenes(inventory);
+    return unlocked[Math.floor(Math.random() * unlocked.length)];
+}
+
+export function getUnlockedBreakScenes(inventory: Inventory): number[] {
+    return BREAK_SCENES.map((_, i) => i).filter(i => isUnlocked('scene', BREAK_SCENES[i], inventory));
+}
+
+export function createDefaultGardenState(): GardenState {
+    return {
+        schemaVersion: GARDEN_STATE_VERSION,
+        lastResetDate: getDateKey(),
+        currentSessionSeconds: 0,
+        isTimerRunning: false,
+        pauseCount: 0,
+        focusLossPauses: 0,
+        fileFocus: [],
+        species: DEFAULT_SPECIES,
+        bredSeeds: [],
+        soilMoisture: MAX_SOIL_MOISTURE,
+        inventory: createDefaultInventory(),
+        quests: createQuestBoard(),
+        avatar: { ...DEFAULT_AVATAR },
+        completedSessions: 0,
+        isOnBreak: false,
+        breakSecondsRemaining: 0,
+        currentBreakScene: 0,
+        nextBreakScene: randomBreakScene()
+    };
+}
+
+function isObject(value: unknown): value is RawState {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCount(value: unknown): boolean {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isSceneIndex(value: unknown): boolean {
+    return isCount(value) && (value as number) < BREAK_SCENES.length;
+}
+
+function isOptionalString(value: unknown): boolean {
+    return value === undefined || typeof value === 'string';
+}
+
+// One check per field; optional fields accept undefined
+const VALIDATORS: { [K in keyof GardenState]-?: (value: unknown) => boolean } = {
+    schemaVersion: isCount,
+    lastResetDate: (v) => typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v),
+    currentSessionSeconds: isCount,
+    isTimerRunning: (v) => typeof v === 'boolean',
+    sessionStartedAt: (v) => v === undefined || (typeof v === 'number' && Number.isFinite(v) && v > 0),
+    pauseCount: isCount,
+    focusLossPauses: isCount,
+    fileFocus: (v) => Array.isArray(v) && v.every(isFileFocus),
+    sessionProject: (v) => v === undefined || (typeof v === 'object' && v !== null &&
+        ['workspace', 'folderUri', 'branch'].every(k => isOptionalString((v as RawState)[k]))),
+    projectFilter: isOptionalString,
+    // Custom species load after the garden, so only the id's shape is checked here
+    species: isSpeciesId,
+    plantedSeed: isOptionalString,
+    bredSeeds: (v) => Array.isArray(v) && v.every(isBredSeed),
+    soilMoisture: isSoilMoisture,
+    inventory: isInventory,
+    quests: isQuestBoard,
+    avatar: isAvatar,
+    completedSessions: isCount,
+    isOnBreak: (v) => typeof v === 'boolean',
+    breakSession: isOptionalString,
+    breakSecondsRemaining: isCount,
+    currentBreakScene: isSceneIndex,
+    nextBreakScene: isSceneIndex
+};
+
+export interface LoadResult {
+    state: GardenState;
+    problems: string[];
+}
+
+// Migrates saved data to the current version and checks every field, falling back to
+// defaults for anything missing or invalid. Problems are reported so the caller can
+// quarantine the original.
+export function parseGardenState(saved: unknown): LoadResult {
+    const defaults = createDefaultGardenState();
+    if (saved === undefined) {
+        return { state: defaults, problems: [] };
+    }
+    if (!isObject(saved)) {
+        return { state: defaults, problems: ['saved garden is not an object'] };
+    }
+
+    let raw = saved as RawState;
+    let version = raw.schemaVersion === undefined ? 1 : raw.schemaVersion;
+    if (!isCount(version) || (version as number) < 1) {
+        return { state: defaults, problems: [`unknown schema version ${JSON.stringify(version)}`] };
+    }
+    if ((version as number) > GARDEN_STATE_VERSION) {
+        return { state: defaults, problems: [`saved by a newer version of the extension (schema ${version})`] };
+    }
+    // Migrations expect the shape their version saved; one that trips over damaged data must
+    // not stop the extension from starting, so the garden starts over and the save is quarantined
+    try {
+        while ((version as number) < GARDEN_STATE_VERSION) {
+            raw = MIGRATIONS[version as number](raw);
+            version = (version as number) + 1;
+        }
+    } catch (error) {
+        return { state: defaults, problems: [`could not upgrade from schema ${version}: ${error instanceof Error ? error.message : error}`] };
+    }
+
+    const problems: string[] = [];
+    const state: RawState = { ...defaults };
+    for (const key of Object.keys(VALIDATORS) as (keyof GardenState)[]) {
+        if (key === 'schemaVersion') continue;
+        const value = raw[key];
+        if (VALIDATORS[key](value)) {
+            state[key] = value;
+        } else if (value !== undefined) {
+            problems.push(`${key} had an invalid value ${JSON.stringify(value)}`);
+        }
+    }
+    for (const key of Object.keys(raw)) {
+        if (!(key in VALIDATORS)) {
+            problems.push(`unknown field ${key}`);
+        }
+    }
+
+    // Fields that are valid on their own but not together
+    const result = state as unknown as GardenState;
+    if (result.isOnBreak && result.breakSecondsRemaining === 0) {
+        result.isOnBreak = false;
+        problems.push('was on a break with no break time left');
+    }
+    if (result.isOnBreak && result.isTimerRunning) {
+        result.isTimerRunning = false;
+        problems.push('timer was running during a break');
+    }
+    if (result.plantedSeed && !result.bredSeeds.some(s => s.id === result.plantedSeed && s.species === result.species)) {
+        result.plantedSeed = undefined;
+        problems.push('planted a bred seed that is no longer there');
+    }
+    if (result.inventory.pot && !isUnlocked('pot', result.inventory.pot, result.inventory)) {
+        result.inventory = { ...result.inventory, pot: undefined };
+        problems.push('pot in use was never bought');
+    }
+
+    return { state: result, problems };
+}
+
+export function loadGardenState(context: vscode.ExtensionContext): GardenState {
+    const saved = context.globalState.get<unknown>(GARDEN_STATE_KEY);
+    const { state, problems } = parseGardenState(saved);
+    if (problems.length > 0) {
+        quarantine(context, GARDEN_STATE_KEY, problems.join('; '), saved);
+        // Save the repaired copy right away so the same problems aren't reported on every start
+        context.globalState.update(GARDEN_STATE_KEY, state);
+        vscode.window.showWarningMessage(
+            `🌱 Your saved garden needed repairs (${problems.length} problem${problems.length === 1 ? '' : 's'}). ` +
+            'The original was kept and can be inspected with "Pomodoro Plants: Show Quarantined Data".'
+        );
+    } else if (saved !== undefined && (saved as RawState).schemaVersion !== GARDEN_STATE_VERSION) {
+        // Save migrated copies right away too, so the ids migrations give ledger entries stay put
+        context.globalState.update(GARDEN_STATE_KEY, state);
+    }
+    return state;
+}
@@ -0,0 +1,86 @@
+import { randomUUID } from 'crypto';
+
+export type LeafShape = 'classic' | 'broad' | 'slender';
+
+// Inheritable traits of a harvested plant; plants grown from shop or designed seeds are the wild type
+export interface Genes {
+    fruit: string;       // key of FRUIT_COLORS
+    leaf: LeafShape;
+    height: number;      // the plant's art is stretched by this, 0.7-1.3 in steps of 0.1
+}
+
+// A seed from cross-pollinating two harvested plants, kept until it is grown
+export interface BredSeed {
+    id: string;
+    species: string;
+    genes: Genes;
+    bredAt: number;
+}
+
+export const WILD_GENES: Genes = { fruit: 'classic', leaf: 'classic', height: 1 };
+
+// Colors a sprite's fruit colors are tinted toward; classic keeps the sprite's own
+export const FRUIT_COLORS: Record<string, string> = {
+    classic: '',
+    golden: '#f4c430',
+    orange: '#ff8c1a',
+    pink: '#f48fb1',
+    purple: '#8e44ad',
+    blue: '#4a8cc4',
+    white: '#efe6c8',
+    black: '#3a2a3a'
+};
+
+const LEAF_SHAPES: readonly LeafShape[] = ['classic', 'broad', 'slender'];
+const MIN_HEIGHT = 0.7;
+const MAX_HEIGHT = 1.3;
+const MUTATION_CHANCE = 0.15;
+
+export const CROSS_POLLINATION_PRICE = 3;
+export const MAX_BRED_SEEDS = 12;
+
+export function isGenes(value: unknown): value is Genes {
+    const genes = value as Genes;
+    return typeof genes === 'object' && genes !== null &&
+        typeof genes.fruit === 'string' && Object.hasOwn(FRUIT_COLORS, genes.fruit) &&
+        LEAF_SHAPES.includes(genes.leaf) &&
+        typeof genes.height === 'number' && genes.height >= MIN_HEIGHT && genes.height <= MAX_HEIGHT;
+}
+
+export function isBredSeed(value: unknown): value is BredSeed {
+    const seed = value as BredSeed;
+    return typeof seed === 'object' && seed !== null &&
+        typeof seed.id === 'string' && typeof seed.species === 'string' &&
+        isGenes(seed.genes) && typeof seed.bredAt === 'number';
+}
+
+function pick<T>(options: readonly T[], random: () => number): T {
+    return options[Math.floor(random() * options.length)];
+}
+
+function clampHeight(height: number): number {
+    return Math.round(Math.min(Math.max(height, MIN_HEIGHT), MAX_HEIGHT) * 10) / 10;
+}
+
+// Each trait comes from one of the parents (height is their average), and any of them may mutate
+export function crossPollinate(a: Genes, b: Genes, random: () => number = Math.random): Genes {
+    const mutates = () => random() < MUTATION_CHANCE;
+    const fruit = mutates() ? pick(Object.keys(FRUIT_COLORS), random) : pick([a.fruit, b.fruit], random);
+    const leaf = mutates() ? pick(LEAF_SHAPES, random) : pick([a.leaf, b.leaf], random);
+    const average = (a.height + b.height) / 2;
+    const height = clampHeight(mutates() ? average + pick([-0.2, -0.1, 0.1, 0.2], random) : average);
+    return { fruit, leaf, height };
+}
+
+export function createBredSeed(species: string, a: Genes = WILD_GENES, b: Genes = WILD_GENES): BredSeed {
+    return { id: randomUUID(), species, genes: crossPollinate(a, b), bredAt: Date.now() };
+}
+
+// e.g. "purple fruit, broad leaves, tall"; wild traits are left out
+export function describeGenes(genes: Genes = WILD_GENES): string {
+    const traits: string[] = [];
+    if (genes.fruit !== 'classic') traits.push(`${genes.fruit} fruit`);
+    if (genes.leaf !== 'classic') traits.push(`${genes.leaf} leaves`);
+    if (genes.height !== 1) traits.push(`${genes.height > 1 ? 'tall' : 'short'} (${Math.round(genes.height * 100)}%)`);
+    return traits.length ? traits.join(', ') : 'wild type';
+}
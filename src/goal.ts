@@ -0,0 +1,36 @@
+import { SessionRecord, getDateKey, isHarvest } from './history';
+
+// Weekday names as used by the restDays setting, indexed like Date.getDay()
+export const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export interface DailyGoal {
+    target: number;      // harvests wanted per day
+    today: number;       // harvests so far today
+    streak: number;      // days in a row the goal was met
+    restDay: boolean;    // today is a rest day, so missing the goal won't end the streak
+}
+
+// Computed from the session history, so edited, imported and synced sessions count. Rest days
+// don't break a streak (and still add to it if the goal was met anyway), and today only adds
+// to it once met, since the day isn't over yet.
+export function getDailyGoal(records: readonly SessionRecord[], target: number, restDays: readonly string[], now: Date = new Date()): DailyGoal {
+    const counts = new Map<string, number>();
+    for (const record of records.filter(isHarvest)) {
+        const key = getDateKey(record.endedAt);
+        counts.set(key, (counts.get(key) || 0) + 1);
+    }
+    const isRestDay = (date: Date) => restDays.includes(WEEKDAY_NAMES[date.getDay()]);
+    const today = counts.get(getDateKey(now)) || 0;
+    const firstDay = [...counts.keys()].sort()[0];
+
+    let streak = today >= target ? 1 : 0;
+    const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
+    for (; firstDay && getDateKey(date) >= firstDay; date.setDate(date.getDate() - 1)) {
+        if ((counts.get(getDateKey(date)) || 0) >= target) {
+            streak++;
+        } else if (!isRestDay(date)) {
+            break;
+        }
+    }
+    return { target, today, streak, restDay: isRestDay(now) };
+}
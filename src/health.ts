@@ -0,0 +1,50 @@
+import { SessionRecord, isHarvest } from './history';
+
+export type PlantHealth = 'healthy' | 'wilted' | 'dead';
+
+export interface SoilLevel {
+    name: string;
+    emoji: string;
+    growth: number;   // share of normal growth speed
+}
+
+// Indexed by soil moisture. Each skipped break dries the soil one level, and a break
+// taken in full waters it back to the top.
+export const SOIL_LEVELS: readonly SoilLevel[] = [
+    { name: 'parched', emoji: '🏜️', growth: 0.6 },
+    { name: 'dry', emoji: '🟫', growth: 0.75 },
+    { name: 'damp', emoji: '💧', growth: 0.9 },
+    { name: 'watered', emoji: '💦', growth: 1 }
+];
+
+export const MAX_SOIL_MOISTURE = SOIL_LEVELS.length - 1;
+
+export function isSoilMoisture(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_SOIL_MOISTURE;
+}
+
+export function getSoil(moisture: number): SoilLevel {
+    return SOIL_LEVELS[Math.min(Math.max(moisture, 0), MAX_SOIL_MOISTURE)];
+}
+
+// Focused seconds a plant needs in this soil; dry soil makes it take longer
+export function getGrowSeconds(pomodoroSeconds: number, moisture: number): number {
+    return Math.round(pomodoroSeconds / getSoil(moisture).growth);
+}
+
+// How far a session got, from 0 to 1
+export function getSessionProgress(record: SessionRecord): number {
+    const needed = record.growSeconds ?? record.plannedSeconds;
+    return needed > 0 ? Math.min(record.focusSeconds / needed, 1) : 1;
+}
+
+// Harvested plants are healthy; a plant given up past halfway wilts, an earlier one dies
+export function getPlantHealth(record: SessionRecord): PlantHealth {
+    if (isHarvest(record)) return 'healthy';
+    return getSessionProgress(record) >= 0.5 ? 'wilted' : 'dead';
+}
+
+// Parched soil leaves the plant growing in it thirsty-looking
+export function getGrowingHealth(moisture: number): PlantHealth {
+    return moisture === 0 ? 'wilted' : 'healthy';
+}
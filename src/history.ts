@@ -0,0 +1,243 @@
+import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
+import { FileFocus, isFileFocus } from './activity';
+import { getProjectName } from './project';
+import { Genes, isGenes } from './genetics';
+import { loadValidList } from './quarantine';
+
+export type BreakType = 'short' | 'long';
+
+// Where a record came from. The extension's own timer writes 'timer'; records without a
+// source were timed by versions from before sources were kept.
+export type SessionSource = 'timer' | 'import' | 'manual';
+export const SESSION_SOURCES: readonly SessionSource[] = ['timer', 'import', 'manual'];
+
+// Abandoned sessions were reset before harvest; records without an outcome were completed
+export type SessionOutcome = 'completed' | 'abandoned';
+export const SESSION_OUTCOMES: readonly SessionOutcome[] = ['completed', 'abandoned'];
+
+export interface SessionRecord {
+    id: string;
+    startedAt: number;       // epoch ms when the session was first started
+    endedAt: number;         // epoch ms when the fruit was harvested
+    plannedSeconds: number;  // configured pomodoro length
+    growSeconds?: number;    // focus the plant needed when dry soil stretched it past plannedSeconds
+    focusSeconds: number;    // seconds actually counted while focused
+    pauseCount: number;      // manual pauses + focus-loss pauses
+    focusLossPauses?: number; // pauses caused by the window losing focus
+    files?: FileFocus[];     // focused seconds per active file/language
+    breakType?: BreakType;   // absent for abandoned sessions
+    breakSeconds?: number;   // planned length of the break that followed
+    breakTaken?: boolean;    // whether that break was sat out in full; absent until it ends
+    breakScene?: string;     // entry of BREAK_SCENES the break used
+    species?: string;        // entry of SPECIES that was grown; absent means tomato
+    genes?: Genes;           // traits of a plant grown from a bred seed; absent for the wild type
+    workspace?: string;      // workspace name when the timer was started
+    folderUri?: string;      // workspace folder the user was working in
+    branch?: string;         // git branch, re-tagged if it changed mid-session
+    source?: SessionSource;
+    outcome?: SessionOutcome;
+    editedAt?: number;       // set when corrected in the history editor
+}
+
+export const HISTORY_KEY = 'sessionHistory';
+// Ids of deleted sessions, kept so a deletion isn't undone by syncing an old copy
+export const DELETED_SESSIONS_KEY = 'deletedSessions';
+
+function pad(value: number): string {
+    return value.toString().padStart(2, '0');
+}
+
+function isSeconds(value: unknown): boolean {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function isOptional(value: unknown, check: (value: unknown) => boolean): boolean {
+    return value === undefined || check(value);
+}
+
+function isString(value: unknown): boolean {
+    return typeof value === 'string';
+}
+
+// Checks saved and synced records field by field, so one bad record can't break every view
+export function isSessionRecord(value: unknown): value is SessionRecord {
+    const record = value as Record<string, unknown>;
+    return typeof record === 'object' && record !== null && !Array.isArray(record) &&
+        typeof record.id === 'string' &&
+        [record.startedAt, record.endedAt, record.plannedSeconds, record.focusSeconds, record.pauseCount].every(isSeconds) &&
+        [record.growSeconds, record.focusLossPauses, record.breakSeconds, record.editedAt].every(v => isOptional(v, isSeconds)) &&
+        [record.breakScene, record.species, record.workspace, record.folderUri, record.branch].every(v => isOptional(v, isString)) &&
+        isOptional(record.files, v => Array.isArray(v) && v.every(isFileFocus)) &&
+        isOptional(record.breakType, v => v === 'short' || v === 'long') &&
+        isOptional(record.breakTaken, v => typeof v === 'boolean') &&
+        isOptional(record.genes, isGenes) &&
+        isOptional(record.source, v => SESSION_SOURCES.includes(v as SessionSource)) &&
+        isOptional(record.outcome, v => SESSION_OUTCOMES.includes(v as SessionOutcome));
+}
+
+function isSessionId(value: unknown): value is string {
+    return typeof value === 'string';
+}
+
+export function isHarvest(record: SessionRecord): boolean {
+    return record.outcome !== 'abandoned';
+}
+
+// Entered or corrected by hand rather than timed by the extension
+export function isManual(record: SessionRecord): boolean {
+    return record.source === 'manual' || record.editedAt !== undefined;
+}
+
+function byEndTime(a: SessionRecord, b: SessionRecord): number {
+    return a.endedAt - b.endedAt;
+}
+
+// Local calendar day (YYYY-MM-DD) used to group sessions
+export function getDateKey(time: number | Date = new Date()): string {
+    const date = new Date(time);
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export class SessionHistory {
+    private _records: SessionRecord[];
+    private _deleted: string[];
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor(private readonly _context: vscode.ExtensionContext) {
+        this._records = loadValidList(this._context, HISTORY_KEY, isSessionRecord, 'sessions');
+        this._deleted = loadValidList(this._context, DELETED_SESSIONS_KEY, isSessionId, 'deleted session ids');
+    }
+
+    // Re-read the log after it was replaced from outside (e.g. a restored backup)
+    public reload() {
+        this._records = loadValidList(this._context, HISTORY_KEY, isSessionRecord, 'sessions');
+        this._deleted = loadValidList(this._context, DELETED_SESSIONS_KEY, isSessionId, 'deleted session ids');
+        this._onDidChange.fire();
+    }
+
+    public getAll(): readonly SessionRecord[] {
+        return this._records;
+    }
+
+    public getDeletedIds(): readonly string[] {
+        return this._deleted;
+    }
+
+    public get(id: string): SessionRecord | undefined {
+        return this._records.find(r => r.id === id);
+    }
+
+    public append(record: Omit<SessionRecord, 'id'>): SessionRecord {
+        const entry: SessionRecord = { id: randomUUID(), ...record };
+        this._records.push(entry);
+        this._save();
+        return entry;
+    }
+
+    // Adds records from another tool, keeping the log in chronological order
+    public importRecords(records: SessionRecord[]) {
+        if (records.length === 0) return;
+        this._records.push(...records);
+        this._records.sort(byEndTime);
+        this._save();
+    }
+
+    // A session the user forgot to time, entered in the history editor
+    public insert(record: Omit<SessionRecord, 'id' | 'source'>): SessionRecord {
+        const entry: SessionRecord = { id: randomUUID(), ...record, source: 'manual' };
+        this._records.push(entry);
+        this._records.sort(byEndTime);
+        this._save();
+        return entry;
+    }
+
+    public update(id: string, changes: Partial<Omit<SessionRecord, 'id'>>): boolean {
+        const index = this._records.findIndex(r => r.id === id);
+        if (index === -1) return false;
+        this._records[index] = { ...this._records[index], ...changes, editedAt: Date.now() };
+        this._records.sort(byEndTime);
+        this._save();
+        return true;
+    }
+
+    // Notes how the break after a timed session went. Not an edit by the user, so the
+    // record isn't marked as one.
+    public markBreak(id: string, taken: boolean) {
+        const index = this._records.findIndex(r => r.id === id);
+        if (index === -1 || this._records[index].breakTaken !== undefined) return;
+        this._records[index] = { ...this._records[index], breakTaken: taken };
+        this._save();
+    }
+
+    public remove(id: string): boolean {
+        const index = this._records.findIndex(r => r.id === id);
+        if (index === -1) return false;
+        this._records.splice(index, 1);
+        this._deleted.push(id);
+        this._save();
+        return true;
+    }
+
+    // Merges records synced from another machine by id: the most recent edit wins and
+    // deletions stick. Returns whether anything changed locally.
+    public mergeRecords(records: readonly SessionRecord[], deletedIds: readonly string[]): boolean {
+        const deleted = new Set(this._deleted);
+        let changed = false;
+        // The synced copy comes from other machines, possibly older versions; anything damaged is left there
+        for (const id of deletedIds.filter(isSessionId)) {
+            if (!deleted.has(id)) {
+                deleted.add(id);
+                this._deleted.push(id);
+                changed = true;
+            }
+        }
+
+        const byId = new Map(this._records.filter(r => !deleted.has(r.id)).map(r => [r.id, r]));
+        if (byId.size !== this._records.length) {
+            changed = true;
+        }
+        for (const record of records.filter(isSessionRecord)) {
+            if (deleted.has(record.id)) continue;
+            const existing = byId.get(record.id);
+            // A break marked on the other machine since the last sync counts as news too
+            const newer = (record.editedAt ?? 0) - (existing?.editedAt ?? 0);
+            if (!existing || newer > 0 || (newer === 0 && existing.breakTaken === undefined && record.breakTaken !== undefined)) {
+                byId.set(record.id, record);
+                changed = true;
+            }
+        }
+
+        if (!changed) return false;
+        this._records = [...byId.values()].sort(byEndTime);
+        this._save();
+        return true;
+    }
+
+    // Sessions (harvested or abandoned) that ended between two date keys, inclusive
+    public getBetween(fromKey: string, toKey: string): SessionRecord[] {
+        return this._records.filter(r => {
+            const key = getDateKey(r.endedAt);
+            return key >= fromKey && key <= toKey;
+        });
+    }
+
+    public getHarvestsOn(dateKey: string, project?: string): SessionRecord[] {
+        return this._records.filter(r =>
+            isHarvest(r) && getDateKey(r.endedAt) === dateKey && (!project || getProjectName(r) === project)
+        );
+    }
+
+    // Every project (workspace) that has recorded sessions, alphabetically
+    public getProjects(): string[] {
+        return [...new Set(this._records.map(getProjectName))].sort();
+    }
+
+    private _save() {
+        this._context.globalState.update(HISTORY_KEY, this._records);
+        this._context.globalState.update(DELETED_SESSIONS_KEY, this._deleted);
+        this._onDidChange.fire();
+    }
+}
@@ -0,0 +1,536 @@
+import * as vscode from 'vscode';
+import { SESSION_OUTCOMES, SessionHistory, SessionOutcome, SessionRecord, getDateKey, isManual } from './history';
+
+// Shape of the form posted back by the webview (times are epoch ms in local time)
+interface SessionForm {
+    id?: string;
+    startedAt: number;
+    endedAt: number;
+    focusMinutes: number;
+    outcome: SessionOutcome;
+    workspace: string;
+}
+
+export class HistoryEditorPanel {
+    public static readonly viewType = 'pomodoroPlants.historyEditor';
+
+    private static _current?: HistoryEditorPanel;
+
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _history: SessionHistory;
+    private _range = { from: getDateKey(Date.now() - 29 * 24 * 60 * 60 * 1000), to: getDateKey() };
+    private _disposables: vscode.Disposable[] = [];
+
+    public static createOrShow(history: SessionHistory) {
+        if (HistoryEditorPanel._current) {
+            HistoryEditorPanel._current._panel.reveal(vscode.ViewColumn.Active);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            HistoryEditorPanel.viewType,
+            '✍️ Session History',
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+        HistoryEditorPanel._current = new HistoryEditorPanel(panel, history);
+    }
+
+    private constructor(panel: vscode.WebviewPanel, history: SessionHistory) {
+        this._panel = panel;
+        this._history = history;
+
+        this._panel.webview.html = this._getHtmlForWebview();
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage((message) => {
+            switch (message.command) {
+                case 'ready':
+                    this._update();
+                    break;
+                case 'setRange':
+                    this._range = { from: message.from, to: message.to };
+                    this._update();
+                    break;
+                case 'save':
+                    this._save(message.session);
+                    break;
+                case 'delete':
+                    this._delete(message.id);
+                    break;
+            }
+        }, null, this._disposables);
+
+        // Totals in the garden and stats follow automatically since they're derived from history
+        this._history.onDidChange(() => this._update(), null, this._disposables);
+    }
+
+    public dispose() {
+        HistoryEditorPanel._current = undefined;
+        this._panel.dispose();
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+
+    private _update() {
+        this._panel.webview.postMessage({
+            type: 'update',
+            range: this._range,
+            sessions: this._history.getBetween(this._range.from, this._range.to)
+                .slice()
+                .reverse()
+                .map(r => ({ ...r, manual: isManual(r) }))
+        });
+    }
+
+    private _validate(form: SessionForm): string | undefined {
+        if (!Number.isFinite(form.startedAt) || !Number.isFinite(form.endedAt)) {
+            return 'Enter a start and end time.';
+        }
+        if (form.endedAt <= form.startedAt) {
+            return 'The session has to end after it starts.';
+        }
+        if (form.endedAt > Date.now()) {
+            return 'Sessions can\'t end in the future.';
+        }
+        if (!(form.focusMinutes > 0) || form.focusMinutes * 60 * 1000 > form.endedAt - form.startedAt) {
+            return 'Focus minutes must be positive and fit between the start and end time.';
+        }
+        if (!SESSION_OUTCOMES.includes(form.outcome)) {
+            return 'Pick whether the session was completed or abandoned.';
+        }
+        const clash = this._history.getAll().find(r =>
+            r.id !== form.id && r.startedAt < form.endedAt && form.startedAt < r.endedAt
+        );
+        if (clash) {
+            return `That overlaps the session from ${new Date(clash.startedAt).toLocaleString()}.`;
+        }
+        return undefined;
+    }
+
+    private _save(form: SessionForm) {
+        const error = this._validate(form);
+        if (error) {
+            this._panel.webview.postMessage({ type: 'error', message: error });
+            return;
+        }
+
+        const focusSeconds = Math.round(form.focusMinutes * 60);
+        const fields: Partial<SessionRecord> = {
+            startedAt: form.startedAt,
+            endedAt: form.endedAt,
+            focusSeconds,
+            outcome: form.outcome,
+            workspace: form.workspace || undefined
+        };
+
+        if (form.id) {
+            this._history.update(form.id, fields);
+        } else {
+            this._history.insert({
+                startedAt: form.startedAt,
+                endedAt: form.endedAt,
+                plannedSeconds: focusSeconds,
+                focusSeconds,
+                pauseCount: 0,
+                breakType: form.outcome === 'completed' ? 'short' : undefined,
+                outcome: form.outcome,
+                workspace: form.workspace || undefined
+            });
+        }
+        this._panel.webview.postMessage({ type: 'saved' });
+    }
+
+    private async _delete(id: string) {
+        const record = this._history.get(id);
+        if (!record) return;
+
+        const choice = await vscode.window.showWarningMessage(
+            `Delete the session from ${new Date(record.startedAt).toLocaleString()}?`,
+            { modal: true },
+            'Delete'
+        );
+        if (choice === 'Delete') {
+            this._history.remove(id);
+        }
+    }
+
+    private _getHtmlForWebview(): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Session History</title>
+    <style>
+        @import url('https://fonts.googleapis.com/css2?family=VT323&display=swap');
+
+        * {
+            margin: 0;
+            padding: 0;
+            box-sizing: border-box;
+        }
+
+        :root {
+            --base-font: var(--vscode-editor-font-size, 14px);
+            --bg-dark: var(--vscode-editor-background, #1e1e1e);
+            --bg-mid: var(--vscode-sideBarSectionHeader-background, #252526);
+            --border: var(--vscode-panel-border, #3c3c3c);
+            --pot: #9b6b4a;
+            --pot-dark: #6d4a35;
+            --pot-light: #b8846a;
+            --leaf: #4a8c3f;
+            --stem: #2d5a27;
+            --leaf-light: #6db35f;
+            --fruit: #e74c3c;
+            --flower: #e85d75;
+            --text: var(--vscode-foreground, #cccccc);
+            --text-dim: var(--vscode-descriptionForeground, #8a8a8a);
+            --accent: #8bc78b;
+        }
+
+        body {
+            font-family: 'VT323', monospace;
+            font-size: calc(var(--base-font) * 1.2);
+            background: var(--bg-dark);
+            color: var(--text);
+            padding: 16px 24px;
+        }
+
+        h1 {
+            font-size: 2em;
+            font-weight: normal;
+            color: var(--accent);
+            text-shadow: 0 0 20px rgba(139, 199, 139, 0.4);
+            margin-bottom: 12px;
+        }
+
+        h2 {
+            font-size: 1.1em;
+            font-weight: normal;
+            color: var(--text-dim);
+            text-transform: uppercase;
+            letter-spacing: 1px;
+            margin-bottom: 6px;
+        }
+
+        .card {
+            background: var(--bg-mid);
+            border: 1px solid var(--border);
+            border-radius: 6px;
+            padding: 10px 12px;
+            margin-bottom: 16px;
+        }
+
+        .form-row {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 10px;
+            align-items: flex-end;
+        }
+
+        label {
+            display: flex;
+            flex-direction: column;
+            gap: 2px;
+            color: var(--text-dim);
+            font-size: 0.9em;
+        }
+
+        input, select {
+            font-family: 'VT323', monospace;
+            font-size: 1em;
+            color: var(--text);
+            background: rgba(0,0,0,0.25);
+            border: 1px solid var(--border);
+            border-radius: 4px;
+            padding: 2px 6px;
+        }
+
+        .btn {
+            font-family: 'VT323', monospace;
+            font-size: 1em;
+            padding: 0.3em 1em;
+            border: 2px solid var(--pot);
+            background: linear-gradient(180deg, var(--pot-light) 0%, var(--pot) 50%, var(--pot-dark) 100%);
+            color: var(--text);
+            cursor: pointer;
+            border-radius: 6px;
+            text-transform: uppercase;
+            box-shadow: 0 3px 0 var(--pot-dark);
+        }
+
+        .btn.save {
+            background: linear-gradient(180deg, var(--leaf-light) 0%, var(--leaf) 50%, var(--stem) 100%);
+            border-color: var(--stem);
+            box-shadow: 0 3px 0 #1e3d1a;
+        }
+
+        .btn.small {
+            font-size: 0.9em;
+            padding: 0.1em 0.6em;
+        }
+
+        .error {
+            color: var(--flower);
+            margin-top: 6px;
+            min-height: 1.2em;
+        }
+
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+
+        th, td {
+            text-align: left;
+            padding: 3px 8px;
+            border-bottom: 1px solid var(--border);
+        }
+
+        th {
+            color: var(--text-dim);
+            font-weight: normal;
+            text-transform: uppercase;
+        }
+
+        .badge {
+            font-size: 0.85em;
+            padding: 0 4px;
+            border-radius: 3px;
+            background: rgba(0,0,0,0.25);
+            color: var(--text-dim);
+        }
+
+        .badge.manual {
+            color: var(--flower);
+        }
+
+        .empty {
+            color: var(--text-dim);
+            padding: 8px 0;
+        }
+    </style>
+</head>
+<body>
+    <h1>✍️ Session History</h1>
+
+    <div class="card">
+        <h2 id="formTitle">Add a missed session</h2>
+        <div class="form-row">
+            <label>Date <input type="date" id="date"></label>
+            <label>Start <input type="time" id="start"></label>
+            <label>End <input type="time" id="end"></label>
+            <label>Focus min <input type="number" id="focus" min="1" step="1" style="width: 5em;"></label>
+            <label>Outcome
+                <select id="outcome">
+                    <option value="completed">🍅 completed</option>
+                    <option value="abandoned">🥀 abandoned</option>
+                </select>
+            </label>
+            <label>Project <input type="text" id="workspace" placeholder="workspace"></label>
+            <button class="btn save" id="saveBtn">Add</button>
+            <button class="btn" id="cancelBtn" style="display: none;">Cancel</button>
+        </div>
+        <div class="error" id="error"></div>
+    </div>
+
+    <div class="card">
+        <div class="form-row" style="margin-bottom: 8px;">
+            <label>From <input type="date" id="from"></label>
+            <label>To <input type="date" id="to"></label>
+        </div>
+        <table>
+            <thead>
+                <tr><th>Day</th><th>Time</th><th>Focus</th><th>Outcome</th><th>Project</th><th>Source</th><th></th></tr>
+            </thead>
+            <tbody id="sessions"></tbody>
+        </table>
+        <div class="empty" id="empty" style="display: none;">No sessions in this range.</div>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        const dateInput = document.getElementById('date');
+        const startInput = document.getElementById('start');
+        const endInput = document.getElementById('end');
+        const focusInput = document.getElementById('focus');
+        const outcomeInput = document.getElementById('outcome');
+        const workspaceInput = document.getElementById('workspace');
+        const saveBtn = document.getElementById('saveBtn');
+        const cancelBtn = document.getElementById('cancelBtn');
+        const formTitle = document.getElementById('formTitle');
+        const errorDiv = document.getElementById('error');
+        const fromInput = document.getElementById('from');
+        const toInput = document.getElementById('to');
+        const sessionsBody = document.getElementById('sessions');
+        const emptyDiv = document.getElementById('empty');
+
+        const sourceLabels = { timer: '⏱ timer', import: '📥 import', manual: '✍️ manual' };
+
+        let editingId = null;
+        let sessions = [];
+
+        function pad(n) {
+            return String(n).padStart(2, '0');
+        }
+
+        function toDateValue(time) {
+            const d = new Date(time);
+            return d.getFullYear() + '-' + pad(d.getMonth() + 1) + '-' + pad(d.getDate());
+        }
+
+        function toTimeValue(time) {
+            const d = new Date(time);
+            return pad(d.getHours()) + ':' + pad(d.getMinutes());
+        }
+
+        // Local date + time inputs to epoch ms; an end before the start means it crossed midnight
+        function readTimes() {
+            const start = new Date(dateInput.value + 'T' + startInput.value).getTime();
+            let end = new Date(dateInput.value + 'T' + endInput.value).getTime();
+            if (end <= start) {
+                end += 24 * 60 * 60 * 1000;
+            }
+            return { start, end };
+        }
+
+        function resetForm() {
+            editingId = null;
+            formTitle.textContent = 'Add a missed session';
+            saveBtn.textContent = 'Add';
+            cancelBtn.style.display = 'none';
+            const now = Date.now();
+            dateInput.value = toDateValue(now);
+            startInput.value = toTimeValue(now - 25 * 60 * 1000);
+            endInput.value = toTimeValue(now);
+            focusInput.value = 25;
+            outcomeInput.value = 'completed';
+            workspaceInput.value = '';
+            errorDiv.textContent = '';
+        }
+
+        function editSession(session) {
+            editingId = session.id;
+            formTitle.textContent = 'Correct session';
+            saveBtn.textContent = 'Save';
+            cancelBtn.style.display = 'inline-block';
+            dateInput.value = toDateValue(session.startedAt);
+            startInput.value = toTimeValue(session.startedAt);
+            endInput.value = toTimeValue(session.endedAt);
+            focusInput.value = Math.round(session.focusSeconds / 60);
+            outcomeInput.value = session.outcome || 'completed';
+            workspaceInput.value = session.workspace || '';
+            errorDiv.textContent = '';
+            window.scrollTo(0, 0);
+        }
+
+        // Keep focus minutes in step with the time window while adding
+        function syncFocusMinutes() {
+            if (editingId) return;
+            const { start, end } = readTimes();
+            if (!isNaN(start) && !isNaN(end)) {
+                focusInput.value = Math.round((end - start) / 60000);
+            }
+        }
+        startInput.addEventListener('change', syncFocusMinutes);
+        endInput.addEventListener('change', syncFocusMinutes);
+
+        saveBtn.addEventListener('click', () => {
+            const { start, end } = readTimes();
+            vscode.postMessage({
+                command: 'save',
+                session: {
+                    id: editingId || undefined,
+                    startedAt: start,
+                    endedAt: end,
+                    focusMinutes: Number(focusInput.value),
+                    outcome: outcomeInput.value,
+                    workspace: workspaceInput.value.trim()
+                }
+            });
+        });
+
+        cancelBtn.addEventListener('click', resetForm);
+
+        function onRangeChange() {
+            if (fromInput.value && toInput.value) {
+                vscode.postMessage({ command: 'setRange', from: fromInput.value, to: toInput.value });
+            }
+        }
+        fromInput.addEventListener('change', onRangeChange);
+        toInput.addEventListener('change', onRangeChange);
+
+        function renderSessions() {
+            sessionsBody.innerHTML = '';
+            emptyDiv.style.display = sessions.length ? 'none' : 'block';
+            sessions.forEach(session => {
+                const row = document.createElement('tr');
+                const cells = [
+                    toDateValue(session.startedAt),
+                    toTimeValue(session.startedAt) + '–' + toTimeValue(session.endedAt),
+                    Math.round(session.focusSeconds / 60) + 'm',
+                    session.outcome === 'abandoned' ? '🥀 abandoned' : '🍅 completed',
+                    session.workspace || '—'
+                ];
+                cells.forEach(text => {
+                    const cell = document.createElement('td');
+                    cell.textContent = text;
+                    row.appendChild(cell);
+                });
+
+                const sourceCell = document.createElement('td');
+                const badge = document.createElement('span');
+                badge.className = 'badge' + (session.manual ? ' manual' : '');
+                badge.textContent = session.manual ? '✍️ manual' : (sourceLabels[session.source] || sourceLabels.timer);
+                sourceCell.appendChild(badge);
+                row.appendChild(sourceCell);
+
+                const actions = document.createElement('td');
+                const edit = document.createElement('button');
+                edit.className = 'btn small';
+                edit.textContent = 'Edit';
+                edit.addEventListener('click', () => editSession(session));
+                const remove = document.createElement('button');
+                remove.className = 'btn small';
+                remove.textContent = '✕';
+                remove.title = 'Delete';
+                remove.addEventListener('click', () => vscode.postMessage({ command: 'delete', id: session.id }));
+                actions.append(edit, ' ', remove);
+                row.appendChild(actions);
+
+                sessionsBody.appendChild(row);
+            });
+        }
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            switch (message.type) {
+                case 'update':
+                    fromInput.value = message.range.from;
+                    toInput.value = message.range.to;
+                    sessions = message.sessions;
+                    renderSessions();
+                    break;
+                case 'saved':
+                    resetForm();
+                    break;
+                case 'error':
+                    errorDiv.textContent = message.message;
+                    break;
+            }
+        });
+
+        resetForm();
+        vscode.postMessage({ command: 'ready' });
+    </script>
+</body>
+</html>`;
+    }
+}
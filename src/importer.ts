@@ -0,0 +1,268 @@
+import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
+import { BreakType, SessionHistory, SessionOutcome, SessionRecord, isSessionRecord } from './history';
+import { isSpeciesId } from './species';
+
+type Row = Record<string, string>;
+
+// Fields we need to build a SessionRecord, with header names other tools commonly use
+interface FieldSpec {
+    field: 'start' | 'end' | 'duration' | 'breakType' | 'breakScene' | 'workspace';
+    label: string;
+    required: boolean;
+    aliases: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+    { field: 'start', label: 'Start time', required: true, aliases: ['startedat', 'start', 'starttime', 'startdate', 'begin', 'from', 'started'] },
+    { field: 'end', label: 'End time', required: false, aliases: ['endedat', 'end', 'endtime', 'enddate', 'finish', 'to', 'stop', 'ended'] },
+    { field: 'duration', label: 'Focus duration', required: false, aliases: ['focusseconds', 'duration', 'minutes', 'durationmin', 'durationminutes', 'length', 'seconds'] },
+    { field: 'breakType', label: 'Break type (short/long)', required: false, aliases: ['breaktype', 'break'] },
+    { field: 'breakScene', label: 'Break scene', required: false, aliases: ['breakscene', 'scene'] },
+    { field: 'workspace', label: 'Workspace / project', required: false, aliases: ['workspace', 'project', 'tag', 'task'] }
+];
+
+type Mapping = Partial<Record<FieldSpec['field'], string>>;
+
+function normalizeHeader(header: string): string {
+    return header.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF or LF
+export function parseCsv(text: string): Row[] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    const [headers, ...body] = rows.filter(r => r.some(cell => cell.trim() !== ''));
+    if (!headers) return [];
+    return body.map(cells => Object.fromEntries(headers.map((h, i) => [h.trim(), (cells[i] ?? '').trim()])));
+}
+
+function parseJson(text: string): Row[] {
+    const data = JSON.parse(text);
+    const items: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.sessions) ? data.sessions : [];
+    return items
+        .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+        .map(item => Object.fromEntries(Object.entries(item).map(([k, v]) => [k, v === null || v === undefined ? '' : String(v)])));
+}
+
+// Epoch seconds, epoch milliseconds or anything Date can parse
+function parseTime(value: string | undefined): number | undefined {
+    if (!value) return undefined;
+    if (/^\d+(\.\d+)?$/.test(value)) {
+        const number = Number(value);
+        return number < 1e11 ? number * 1000 : number;
+    }
+    const time = new Date(value).getTime();
+    return isNaN(time) ? undefined : time;
+}
+
+function guessMapping(headers: string[]): Mapping {
+    const mapping: Mapping = {};
+    for (const spec of FIELDS) {
+        const match = headers.find(h => spec.aliases.includes(normalizeHeader(h)));
+        if (match) {
+            mapping[spec.field] = match;
+        }
+    }
+    return mapping;
+}
+
+function isUsable(mapping: Mapping): boolean {
+    return !!mapping.start && (!!mapping.end || !!mapping.duration);
+}
+
+async function askMapping(headers: string[], guess: Mapping): Promise<Mapping | undefined> {
+    const mapping: Mapping = {};
+    for (const spec of FIELDS) {
+        const items: vscode.QuickPickItem[] = headers.map(h => ({
+            label: h,
+            description: guess[spec.field] === h ? 'suggested' : undefined
+        }));
+        if (!spec.required) {
+            items.unshift({ label: '(none)' });
+        }
+        const suggested = guess[spec.field];
+        if (suggested) {
+            items.sort((a, b) => (b.label === suggested ? 1 : 0) - (a.label === suggested ? 1 : 0));
+        }
+
+        const choice = await vscode.window.showQuickPick(items, {
+            title: 'Map columns',
+            placeHolder: `Which column holds "${spec.label}"?`
+        });
+        if (!choice) return undefined;
+        if (choice.label !== '(none)') {
+            mapping[spec.field] = choice.label;
+        }
+    }
+    return mapping;
+}
+
+async function askDurationUnit(header: string): Promise<number | undefined> {
+    const normalized = normalizeHeader(header);
+    if (normalized.includes('sec')) return 1;
+    if (normalized.includes('min')) return 60;
+
+    const choice = await vscode.window.showQuickPick(
+        [{ label: 'Minutes', factor: 60 }, { label: 'Seconds', factor: 1 }],
+        { title: 'Map columns', placeHolder: `Is "${header}" in minutes or seconds?` }
+    );
+    return choice?.factor;
+}
+
+// Our own exports carry these columns; other tools' files simply won't have them
+function optionalNumber(row: Row, column: keyof SessionRecord): number | undefined {
+    const value = Number(row[column]);
+    return row[column] !== undefined && row[column] !== '' && !isNaN(value) ? value : undefined;
+}
+
+function optionalBoolean(row: Row, column: keyof SessionRecord): boolean | undefined {
+    return row[column] === 'true' ? true : row[column] === 'false' ? false : undefined;
+}
+
+function toRecords(rows: Row[], mapping: Mapping, durationFactor: number): SessionRecord[] {
+    const records: SessionRecord[] = [];
+    for (const row of rows) {
+        const start = parseTime(mapping.start && row[mapping.start]);
+        if (start === undefined) continue;
+
+        // An empty cell is a missing duration, not a zero-minute session
+        const durationCell = mapping.duration ? row[mapping.duration]?.trim() : undefined;
+        const durationValue = durationCell ? Number(durationCell) : NaN;
+        let end = parseTime(mapping.end && row[mapping.end]);
+        if (end === undefined && !isNaN(durationValue)) {
+            end = start + durationValue * durationFactor * 1000;
+        }
+        if (end === undefined || end <= start) continue;
+
+        const focusSeconds = !isNaN(durationValue)
+            ? Math.round(durationValue * durationFactor)
+            : Math.round((end - start) / 1000);
+        // Our own exports mark sessions given up before harvest; those had no break after them
+        const outcome: SessionOutcome = row.outcome === 'abandoned' ? 'abandoned' : 'completed';
+        const breakType: BreakType | undefined = outcome === 'abandoned' ? undefined
+            : mapping.breakType && /long/i.test(row[mapping.breakType]) ? 'long' : 'short';
+
+        records.push({
+            id: randomUUID(),
+            startedAt: start,
+            endedAt: end,
+            plannedSeconds: optionalNumber(row, 'plannedSeconds') ?? focusSeconds,
+            growSeconds: optionalNumber(row, 'growSeconds'),
+            focusSeconds,
+            pauseCount: optionalNumber(row, 'pauseCount') ?? 0,
+            breakType,
+            breakSeconds: optionalNumber(row, 'breakSeconds'),
+            breakTaken: optionalBoolean(row, 'breakTaken'),
+            breakScene: breakType && ((mapping.breakScene && row[mapping.breakScene]) || ''),
+            // Only our own exports have this column
+            species: isSpeciesId(row.species) ? row.species : undefined,
+            workspace: (mapping.workspace && row[mapping.workspace]) || undefined,
+            source: 'import',
+            outcome
+        });
+    }
+    return records;
+}
+
+function overlaps(a: SessionRecord, b: SessionRecord): boolean {
+    return a.startedAt < b.endedAt && b.startedAt < a.endedAt;
+}
+
+// Drop sessions that overlap anything already recorded (or earlier in the same file)
+export function dedupe(existing: readonly SessionRecord[], incoming: SessionRecord[]): SessionRecord[] {
+    const kept: SessionRecord[] = [];
+    const sorted = [...incoming].sort((a, b) => a.startedAt - b.startedAt);
+    for (const record of sorted) {
+        if (existing.some(r => overlaps(r, record)) || kept.some(r => overlaps(r, record))) {
+            continue;
+        }
+        kept.push(record);
+    }
+    return kept;
+}
+
+export async function importHistory(history: SessionHistory) {
+    const uris = await vscode.window.showOpenDialog({
+        title: 'Import Pomodoro history',
+        canSelectMany: false,
+        filters: { 'Pomodoro exports': ['csv', 'json'] }
+    });
+    if (!uris || uris.length === 0) return;
+
+    const text = Buffer.from(await vscode.workspace.fs.readFile(uris[0])).toString('utf8');
+    let rows: Row[];
+    try {
+        rows = uris[0].path.toLowerCase().endsWith('.json') ? parseJson(text) : parseCsv(text);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Could not read ${uris[0].fsPath}: ${error instanceof Error ? error.message : error}`);
+        return;
+    }
+    if (rows.length === 0) {
+        vscode.window.showWarningMessage('🌱 No sessions found in that file.');
+        return;
+    }
+
+    const headers = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+    let mapping = guessMapping(headers);
+    if (!isUsable(mapping)) {
+        const asked = await askMapping(headers, mapping);
+        if (!asked) return;
+        mapping = asked;
+    }
+    if (!isUsable(mapping)) {
+        vscode.window.showErrorMessage('Import needs a start time column plus an end time or duration column.');
+        return;
+    }
+
+    let durationFactor = 1;
+    if (mapping.duration) {
+        const factor = await askDurationUnit(mapping.duration);
+        if (factor === undefined) return;
+        durationFactor = factor;
+    }
+
+    // Rows with impossible values (negative pauses, say) would only be quarantined on the next start
+    const parsed = toRecords(rows, mapping, durationFactor).filter(isSessionRecord);
+    const fresh = dedupe(history.getAll(), parsed);
+    history.importRecords(fresh);
+
+    const skipped = rows.length - fresh.length;
+    vscode.window.showInformationMessage(
+        `🍅 Imported ${fresh.length} sessions into your garden` + (skipped ? ` (${skipped} skipped as duplicates or unreadable).` : '.')
+    );
+}
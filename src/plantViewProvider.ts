@@ -1,18 +1,25 @@
 import * as vscode from 'vscode';
-
-interface GardenState {
-    fruitsCollected: number;
-    lastResetDate: string;
-    currentSessionSeconds: number;
-    isTimerRunning: boolean;
-    completedSessions: number;
-    isOnBreak: boolean;
-    breakSecondsRemaining: number;
-    currentBreakScene: number;
-    nextBreakScene: number;
-}
-
-const BREAK_SCENES = ['hayBale', 'lemonade', 'fishing', 'treeNap'] as const;
+import { SessionHistory, SessionRecord, getDateKey, isHarvest } from './history';
+import { GardenSnapshot, GardenSync } from './sync';
+import { addFocusSecond, formatLanguageShare } from './activity';
+import { ProjectTracker } from './project';
+import { TeamGarden } from './teamGarden';
+import { countProduce, getAllSpecies, getSpecies, getStageIndex, isKnownSpecies } from './species';
+import { SpriteLibrary } from './spriteLibrary';
+import { buildGarden } from './garden';
+import { MAX_SOIL_MOISTURE, getGrowSeconds, getGrowingHealth, getSoil } from './health';
+import { BREAK_SCENES, GARDEN_STATE_KEY, GardenState, getUnlockedBreakScenes, loadGardenState, randomBreakScene } from './gardenState';
+import { LedgerEntry, SHOP_ITEMS, addToLedger, getFruitBalance, getPotColors, getPurchaseBlocker, getShopItem, isUnlocked, mergeLedger } from './shop';
+import { Achievements, GardenEvent } from './achievements';
+import { advanceQuests, claimQuestReward, describeQuest, rollOverQuests } from './quests';
+import { CROSS_POLLINATION_PRICE, FRUIT_COLORS, MAX_BRED_SEEDS, createBredSeed, describeGenes } from './genetics';
+import { WEEKDAY_NAMES, getDailyGoal } from './goal';
+import { AVATAR_OPTIONS, isAvatarPart } from './avatar';
+import { getWeather } from './weather';
+import { Hemisphere, getSky } from './sky';
+
+// How often an idle garden checks the clock for the sky and a new day
+const IDLE_REFRESH_MS = 60 * 1000;
 
 interface Settings {
     pomodoroDuration: number;
@@ -21,6 +28,9 @@ interface Settings {
     sessionsBeforeLongBreak: number;
     autoStartOnFocus: boolean;
     showNotifications: boolean;
+    dailyGoal: number;
+    restDays: string[];
+    hemisphere: Hemisphere;
 }
 
 function getSettings(): Settings {
@@ -31,39 +41,72 @@ function getSettings(): Settings {
         longBreakDuration: config.get('longBreakDuration', 15),
         sessionsBeforeLongBreak: config.get('sessionsBeforeLongBreak', 4),
         autoStartOnFocus: config.get('autoStartOnFocus', false),
-        showNotifications: config.get('showNotifications', true)
+        showNotifications: config.get('showNotifications', true),
+        dailyGoal: config.get('dailyGoal', 8),
+        restDays: config.get<string[]>('restDays', ['saturday', 'sunday']).map(day => day.toLowerCase())
+            .filter(day => WEEKDAY_NAMES.includes(day)),
+        hemisphere: config.get<string>('hemisphere', 'northern') === 'southern' ? 'southern' : 'northern'
     };
 }
 
-const STAGES = [
-    'dirt',           // 0-10%: bare soil
-    'watered',        // 10-20%: wet soil, ready to grow
-    'cracking',       // 20-30%: soil cracking, something's coming
-    'seedling',       // 30-40%: tiny green peek
-    'sprout',         // 40-50%: small sprout with cotyledons
-    'baby',           // 50-60%: first true leaves
-    'growing',        // 60-70%: stem getting taller
-    'leafy',          // 70-80%: more leaves, bushier
-    'budding',        // 80-90%: flower bud forming
-    'fruiting'        // 90-100%: full plant with fruit!
-] as const;
-
 export class PlantViewProvider implements vscode.WebviewViewProvider {
     public static readonly viewType = 'pomodoroPlants.gardenView';
 
     private _view?: vscode.WebviewView;
     private _state: GardenState;
     private _timerInterval?: NodeJS.Timeout;
+    private _idleInterval?: NodeJS.Timeout;
     private _isWindowFocused: boolean = true;
     private _context: vscode.ExtensionContext;
+    private _history: SessionHistory;
+    private _sync: GardenSync;
+    private _project: ProjectTracker;
+    private _team: TeamGarden;
+    private _sprites: SpriteLibrary;
+    private _achievements: Achievements;
 
     constructor(
         private readonly _extensionUri: vscode.Uri,
-        context: vscode.ExtensionContext
+        context: vscode.ExtensionContext,
+        history: SessionHistory,
+        sync: GardenSync,
+        project: ProjectTracker,
+        team: TeamGarden,
+        sprites: SpriteLibrary,
+        achievements: Achievements
     ) {
         this._context = context;
-        this._state = this._loadState();
+        this._history = history;
+        this._sync = sync;
+        this._project = project;
+        this._team = team;
+        this._sprites = sprites;
+        this._achievements = achievements;
+        this._state = loadGardenState(this._context);
         this._checkDailyReset();
+
+        this._history.onDidChange(() => {
+            this._postGarden();
+            this._postShop();
+            this._updateWebview();
+        });
+        this._team.onDidChange(() => this._updateWebview());
+        this._sprites.onDidChange(() => {
+            this._postSprites();
+            this._postGarden();
+            this._postAchievements();
+            this._updateWebview();
+        });
+        this._achievements.onDidChange(() => this._postAchievements());
+        this._sync.onDidReceiveGarden((snapshot) => this._applyRemoteGarden(snapshot));
+        this._sync.onDidReceiveLedger((entries) => this._applyRemoteLedger(entries));
+        this._project.onDidChangeBranch((branch) => {
+            // Re-tag a session in progress when the user switches branches
+            if (this._state.sessionProject && this._state.currentSessionSeconds > 0) {
+                this._state.sessionProject.branch = branch;
+                this.saveState();
+            }
+        });
     }
 
     public resolveWebviewView(
@@ -96,17 +139,54 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
                     this.harvestFruit();
                     break;
                 case 'ready':
+                    this._postSprites();
+                    this._postGarden();
+                    this._postShop();
+                    this._postAchievements();
+                    this._postQuests();
+                    this._postAvatar();
                     this._updateWebview();
                     break;
                 case 'openSettings':
                     vscode.commands.executeCommand('pomodoroPlants.openSettings');
                     break;
+                case 'showStats':
+                    vscode.commands.executeCommand('pomodoroPlants.showStats');
+                    break;
                 case 'skipBreak':
                     this.skipBreak();
                     break;
-                case 'changeBreakScene':
-                    this._state.nextBreakScene = message.scene;
+                case 'setProjectFilter':
+                    this._state.projectFilter = message.project || undefined;
                     this.saveState();
+                    this._postGarden();
+                    this._updateWebview();
+                    break;
+                case 'chooseSeed':
+                    this.chooseSeed(message.species, message.seed);
+                    break;
+                case 'crossPollinate':
+                    this.crossPollinate(message.plots);
+                    break;
+                case 'changeBreakScene': {
+                    const scene = BREAK_SCENES.indexOf(message.scene);
+                    if (getUnlockedBreakScenes(this._state.inventory).includes(scene)) {
+                        this._state.nextBreakScene = scene;
+                        this.saveState();
+                    }
+                    break;
+                }
+                case 'buy':
+                    this.buyItem(message.item);
+                    break;
+                case 'usePot':
+                    this.usePot(message.pot);
+                    break;
+                case 'toggleDecoration':
+                    this.toggleDecoration(message.decoration);
+                    break;
+                case 'dressFarmer':
+                    this.dressFarmer(message.part, message.choice);
                     break;
             }
         });
@@ -116,32 +196,37 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
             this._startTimerInterval();
         }
 
+        clearInterval(this._idleInterval);
+        this._idleInterval = setInterval(() => this._refreshIdle(), IDLE_REFRESH_MS);
+        webviewView.onDidDispose(() => {
+            clearInterval(this._idleInterval);
+            this._idleInterval = undefined;
+        });
+
         this._updateWebview();
     }
 
-    private _loadState(): GardenState {
-        const saved = this._context.globalState.get<GardenState>('gardenState');
-        if (saved) {
-            return { 
-                ...saved, 
-                completedSessions: saved.completedSessions || 0,
-                isOnBreak: saved.isOnBreak || false,
-                breakSecondsRemaining: saved.breakSecondsRemaining || 0,
-                currentBreakScene: saved.currentBreakScene || 0,
-                nextBreakScene: saved.nextBreakScene ?? Math.floor(Math.random() * BREAK_SCENES.length)
-            };
+    // Updates only go out while a timer ticks, so an idle garden redraws its sky and rolls
+    // over the quests on its own. A plant in progress is left alone: fruit counts towards the
+    // day it was harvested, so nothing has to be cleared when the day changes.
+    private _refreshIdle() {
+        if (this._timerInterval) return;
+        this._rollOverQuests();
+        this._updateWebview();
+    }
+
+    // Re-read persisted state after it was replaced from outside (e.g. a restored backup)
+    public reloadState() {
+        this._stopTimerInterval();
+        this._state = loadGardenState(this._context);
+        this._checkDailyReset();
+        this._achievements.reload();
+        if (this._state.isOnBreak) {
+            this._startBreakTimer();
+        } else if (this._state.isTimerRunning && this._isWindowFocused) {
+            this._startTimerInterval();
         }
-        return {
-            fruitsCollected: 0,
-            lastResetDate: this._getTodayString(),
-            currentSessionSeconds: 0,
-            isTimerRunning: false,
-            completedSessions: 0,
-            isOnBreak: false,
-            breakSecondsRemaining: 0,
-            currentBreakScene: 0,
-            nextBreakScene: Math.floor(Math.random() * BREAK_SCENES.length)
-        };
+        this._updateWebview();
     }
 
     public reloadSettings() {
@@ -149,89 +234,420 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
         this._updateWebview();
     }
 
-    private _getPomodoroDurationSeconds(): number {
-        return getSettings().pomodoroDuration * 60;
+    // Focused time the current plant needs, stretched when the soil is dry
+    private _getGrowSeconds(): number {
+        return getGrowSeconds(getSettings().pomodoroDuration * 60, this._state.soilMoisture);
     }
 
     public saveState() {
-        this._context.globalState.update('gardenState', this._state);
+        this._context.globalState.update(GARDEN_STATE_KEY, this._state);
+    }
+
+    // Shared with other machines on user actions only, not on every timer tick
+    private _publishGarden() {
+        this._sync.publishGarden({
+            isTimerRunning: this._state.isTimerRunning,
+            currentSessionSeconds: this._state.currentSessionSeconds,
+            sessionStartedAt: this._state.sessionStartedAt,
+            completedSessions: this._state.completedSessions,
+            species: this._state.species
+        });
+    }
+
+    // Continue a plant grown on another machine, unless one is growing (or resting) here
+    private _applyRemoteGarden(snapshot: GardenSnapshot) {
+        if (this._state.isTimerRunning || this._state.isOnBreak) return;
+
+        this._state.currentSessionSeconds = Math.min(snapshot.currentSessionSeconds, this._getGrowSeconds());
+        this._state.sessionStartedAt = snapshot.sessionStartedAt;
+        this._state.completedSessions = snapshot.completedSessions;
+        if (isKnownSpecies(snapshot.species)) {
+            this._state.species = snapshot.species;
+        }
+        // The remote plant grows from its own seed, and a bred seed planted here stays in the bag
+        this._state.plantedSeed = undefined;
+        this._state.pauseCount = 0;
+        this._state.focusLossPauses = 0;
+        this._state.fileFocus = [];
+        this._state.sessionProject = undefined;
+        this.saveState();
+        this._updateWebview();
+    }
+
+    // Fruit spent or earned on other machines counts here too, and their purchases unlock here
+    private _applyRemoteLedger(entries: LedgerEntry[]) {
+        if (mergeLedger(this._state.inventory, entries)) {
+            this.saveState();
+            this._postShop();
+            this._updateWebview();
+        }
+        this._publishLedger();
+    }
+
+    // Shared as soon as fruit changes hands, so it can't be spent again on another machine
+    private _publishLedger() {
+        this._sync.pushLedger(this._state.inventory.ledger);
     }
 
     private _getTodayString(): string {
-        return new Date().toISOString().split('T')[0];
+        return getDateKey();
+    }
+
+    // Today's harvest per produce is derived from the session history
+    private _getProduceToday() {
+        return countProduce(this._history.getHarvestsOn(this._getTodayString(), this._state.projectFilter));
     }
 
+    // Run when the garden is loaded: a plant left growing since an earlier day is given up
     private _checkDailyReset() {
         const today = this._getTodayString();
         if (this._state.lastResetDate !== today) {
-            this._state.fruitsCollected = 0;
             this._state.lastResetDate = today;
-            this._state.currentSessionSeconds = 0;
+            this._recordAbandonedSession();
+            this._clearCurrentSession();
             this._state.isTimerRunning = false;
             this.saveState();
         }
+        this._rollOverQuests();
+    }
+
+    // Quests roll over with the day and the week, drawn to suit what is in the shop
+    private _rollOverQuests() {
+        if (rollOverQuests(this._state.quests, this._state.inventory)) {
+            this.saveState();
+            this._postQuests();
+        }
+    }
+
+    private _clearCurrentSession() {
+        this._state.currentSessionSeconds = 0;
+        this._state.sessionStartedAt = undefined;
+        this._state.pauseCount = 0;
+        this._state.focusLossPauses = 0;
+        this._state.fileFocus = [];
+        this._state.sessionProject = undefined;
+    }
+
+    private _describeCurrentSession(): Omit<SessionRecord, 'id'> {
+        const now = Date.now();
+        const plannedSeconds = getSettings().pomodoroDuration * 60;
+        const growSeconds = this._getGrowSeconds();
+        return {
+            startedAt: this._state.sessionStartedAt ?? now - this._state.currentSessionSeconds * 1000,
+            endedAt: now,
+            plannedSeconds,
+            growSeconds: growSeconds !== plannedSeconds ? growSeconds : undefined,
+            focusSeconds: this._state.currentSessionSeconds,
+            pauseCount: this._state.pauseCount,
+            focusLossPauses: this._state.focusLossPauses,
+            files: this._state.fileFocus,
+            ...(this._state.sessionProject ?? this._project.getCurrent()),
+            species: this._state.species,
+            genes: this._getPlantedSeed()?.genes,
+            source: 'timer'
+        };
+    }
+
+    // Sessions given up before harvest are still logged so reports can show them
+    private _recordAbandonedSession() {
+        if (this._state.currentSessionSeconds === 0) return;
+        this._history.append({ ...this._describeCurrentSession(), outcome: 'abandoned' });
+        this._usePlantedSeed();
+    }
+
+    private _getPlantedSeed() {
+        return this._state.bredSeeds.find(seed => seed.id === this._state.plantedSeed);
+    }
+
+    // A bred seed is used up once its plant is harvested or abandoned
+    private _usePlantedSeed() {
+        if (!this._state.plantedSeed) return;
+        this._state.bredSeeds = this._state.bredSeeds.filter(seed => seed.id !== this._state.plantedSeed);
+        this._state.plantedSeed = undefined;
+    }
+
+    private _isSeedUnlocked(speciesId: string): boolean {
+        return isUnlocked('seed', speciesId, this._state.inventory);
+    }
+
+    // The seed can only be swapped while the pot is still empty. Bred seeds were grown from
+    // your own plants, so they can be planted whether or not their species is in the shop.
+    public chooseSeed(speciesId: string, bredSeedId?: string) {
+        const bred = bredSeedId ? this._state.bredSeeds.find(seed => seed.id === bredSeedId && seed.species === speciesId) : undefined;
+        if (!isKnownSpecies(speciesId) || (bredSeedId ? !bred : !this._isSeedUnlocked(speciesId)) ||
+            this._state.isTimerRunning || this._state.currentSessionSeconds > 0) return;
+        this._state.species = speciesId;
+        this._state.plantedSeed = bred?.id;
+        this.saveState();
+        this._publishGarden();
+        this._updateWebview();
+    }
+
+    public async pickSeed() {
+        if (this._state.isTimerRunning || this._state.currentSessionSeconds > 0) {
+            vscode.window.showInformationMessage(`🌱 Your ${getSpecies(this._state.species).name.toLowerCase()} is already growing. Harvest or reset it to plant another seed.`);
+            return;
+        }
+        const planted = this._state.plantedSeed ?? this._state.species;
+        const choice = await vscode.window.showQuickPick(
+            this._listSeeds().map(seed => ({
+                label: `${seed.emoji} ${seed.name}`,
+                description: seed.id === planted ? 'planted' : seed.bred ? 'bred' : `${getSpecies(seed.species).stages.length} stages`,
+                seed
+            })),
+            { title: 'Choose a seed to plant' }
+        );
+        if (choice) {
+            this.chooseSeed(choice.seed.species, choice.seed.bred ? choice.seed.id : undefined);
+        }
+    }
+
+    // Wild seeds of every unlocked species, then seeds bred in the garden
+    private _listSeeds() {
+        return [
+            ...getAllSpecies()
+                .filter(s => this._isSeedUnlocked(s.id))
+                .map(s => ({ id: s.id, species: s.id, name: s.name, emoji: s.produceEmoji, bred: false })),
+            ...this._state.bredSeeds.filter(seed => isKnownSpecies(seed.species)).map(seed => {
+                const species = getSpecies(seed.species);
+                return { id: seed.id, species: species.id, name: `${species.name} (${describeGenes(seed.genes)})`, emoji: species.produceEmoji, bred: true };
+            })
+        ];
+    }
+
+    // Two harvested plants of the same species make a seed that mixes (and may mutate) their traits
+    public crossPollinate(plotIds: string[]) {
+        const records = this._history.getAll();
+        const parents = (Array.isArray(plotIds) ? plotIds : []).map(id => records.find(r => r.id === id));
+        const [a, b] = parents;
+        if (parents.length !== 2 || !a || !b || a.id === b.id || !isHarvest(a) || !isHarvest(b)) return;
+        const species = getSpecies(a.species);
+        const inventory = this._state.inventory;
+        let problem: string | undefined;
+        if (getSpecies(b.species).id !== species.id) {
+            problem = 'Only plants of the same species can be cross-pollinated.';
+        } else if (this._state.bredSeeds.length >= MAX_BRED_SEEDS) {
+            problem = `You already have ${MAX_BRED_SEEDS} bred seeds. Plant some of them first.`;
+        } else if (getFruitBalance(records, inventory) < CROSS_POLLINATION_PRICE) {
+            problem = `Cross-pollinating costs ${CROSS_POLLINATION_PRICE} fruit.`;
+        }
+        if (problem) {
+            vscode.window.showInformationMessage(`🐝 ${problem}`);
+            return;
+        }
+
+        const seed = createBredSeed(species.id, a.genes, b.genes);
+        this._state.bredSeeds.push(seed);
+        addToLedger(inventory, -CROSS_POLLINATION_PRICE);
+        this.saveState();
+        this._publishLedger();
+        this._postShop();
+        this._updateWebview();
+        vscode.window.showInformationMessage(
+            `🐝 New ${species.name.toLowerCase()} seed: ${describeGenes(seed.genes)}. Plant it with the seed buttons above the pot.`
+        );
     }
 
     public startTimer() {
-        if (this._state.isTimerRunning) return;
+        // No growing during a break, even when auto-start catches the window coming back
+        if (this._state.isTimerRunning || this._state.isOnBreak) return;
         
         this._state.isTimerRunning = true;
+        if (this._state.sessionStartedAt === undefined) {
+            this._state.sessionStartedAt = Date.now();
+        }
+        this._state.sessionProject = this._project.getCurrent();
         // Pre-select the break scene so user can preview it
-        this._state.nextBreakScene = Math.floor(Math.random() * BREAK_SCENES.length);
+        this._state.nextBreakScene = randomBreakScene(this._state.inventory);
         if (this._isWindowFocused) {
             this._startTimerInterval();
         }
         this.saveState();
+        this._publishGarden();
         this._updateWebview();
     }
 
     public stopTimer() {
+        if (this._state.isTimerRunning) {
+            this._state.pauseCount++;
+        }
         this._state.isTimerRunning = false;
         this._stopTimerInterval();
         this.saveState();
+        this._publishGarden();
         this._updateWebview();
     }
 
     public resetTimer() {
-        this._state.currentSessionSeconds = 0;
+        this._recordAbandonedSession();
+        this._clearCurrentSession();
         this._state.isTimerRunning = false;
         this._stopTimerInterval();
         this.saveState();
+        this._publishGarden();
         this._updateWebview();
     }
 
     public harvestFruit() {
-        if (this._state.currentSessionSeconds >= this._getPomodoroDurationSeconds()) {
-            this._state.fruitsCollected++;
+        if (this._state.currentSessionSeconds >= this._getGrowSeconds()) {
             this._state.completedSessions++;
-            this._state.currentSessionSeconds = 0;
             this._state.isTimerRunning = false;
             this._stopTimerInterval();
             
             // Start break time!
             const settings = getSettings();
-            const isLongBreak = this._state.completedSessions % settings.sessionsBeforeLongBreak === 0;
+            const isLongBreak = this._isLongBreak();
             this._state.isOnBreak = true;
             this._state.breakSecondsRemaining = (isLongBreak ? settings.longBreakDuration : settings.shortBreakDuration) * 60;
             this._state.currentBreakScene = this._state.nextBreakScene;
+
+            // Record the finished session before clearing it
+            const languageShare = formatLanguageShare(this._state.fileFocus);
+            const species = getSpecies(this._state.species);
+            const record = this._history.append({
+                ...this._describeCurrentSession(),
+                breakType: isLongBreak ? 'long' : 'short',
+                breakSeconds: this._state.breakSecondsRemaining,
+                breakScene: BREAK_SCENES[this._state.currentBreakScene],
+                outcome: 'completed'
+            });
+            this._state.breakSession = record.id;
+            this._team.recordHarvest(record)
+                .catch((error) => console.error('Pomodoro Plants: could not update the team garden', error));
+            this._usePlantedSeed();
+            this._clearCurrentSession();
             
             this.saveState();
+            this._publishGarden();
             this._updateWebview();
             this._startBreakTimer();
             
             if (settings.showNotifications) {
                 const breakType = isLongBreak ? 'long' : 'short';
-                vscode.window.showInformationMessage(`🍅 Fruit harvested! Enjoy your ${breakType} break, farmer! 👨‍🌾`);
+                const focusNote = languageShare ? ` (${languageShare})` : '';
+                vscode.window.showInformationMessage(`${species.produceEmoji} ${species.name} harvested${focusNote}! Enjoy your ${breakType} break, farmer! 👨‍🌾`);
+            }
+            this._recordEvent({ type: 'harvest', record });
+        }
+    }
+
+    // Every few sessions the break that follows is a long one
+    private _isLongBreak(): boolean {
+        return this._state.completedSessions % getSettings().sessionsBeforeLongBreak === 0;
+    }
+
+    // Feeds achievements and quests; completed quests pay out straight away
+    private _recordEvent(event: GardenEvent) {
+        this._achievements.record(event);
+        rollOverQuests(this._state.quests, this._state.inventory);
+        const completed = advanceQuests(this._state.quests, event);
+        const rewards = completed.map(quest => [describeQuest(quest).title, claimQuestReward(quest, this._state.inventory)]);
+        this.saveState();
+        this._postQuests();
+        if (!completed.length) return;
+        this._publishLedger();
+        this._postShop();
+        this._updateWebview();
+        if (getSettings().showNotifications) {
+            for (const [title, reward] of rewards) {
+                vscode.window.showInformationMessage(`📜 Quest complete: ${title}! You earned ${reward}.`);
             }
         }
     }
 
+    // Spends harvested fruit; pots and decorations are put to use straight away
+    public buyItem(itemId: string) {
+        const item = getShopItem(itemId);
+        if (!item) return;
+        const inventory = this._state.inventory;
+        const blocker = getPurchaseBlocker(item, inventory, getFruitBalance(this._history.getAll(), inventory));
+        if (blocker) {
+            vscode.window.showInformationMessage(`🛒 Can't buy ${item.name} yet: ${blocker}.`);
+            return;
+        }
+
+        addToLedger(inventory, -item.price, item.id);
+        if (item.kind === 'pot') {
+            inventory.pot = item.unlocks;
+        } else if (item.kind === 'decoration') {
+            inventory.decorations.push(item.unlocks);
+        }
+        this.saveState();
+        this._publishLedger();
+        this._postShop();
+        this._updateWebview();
+
+        const notes = {
+            seed: 'Pick it with the seed buttons above the pot.',
+            pot: 'Your plant has been repotted.',
+            decoration: 'Look for it around your pot.',
+            scene: 'It can now come up as a break scene.'
+        };
+        vscode.window.showInformationMessage(`🛒 Bought ${item.emoji} ${item.name}! ${notes[item.kind]}`);
+        this._recordEvent({ type: 'purchase', item: item.id });
+    }
+
+    // Undefined switches back to the classic clay pot
+    public usePot(style?: string) {
+        if (style !== undefined && (!SHOP_ITEMS.some(i => i.kind === 'pot' && i.unlocks === style) ||
+            !isUnlocked('pot', style, this._state.inventory))) return;
+        this._state.inventory.pot = style;
+        this.saveState();
+        this._postShop();
+    }
+
+    public toggleDecoration(decoration: string) {
+        const inventory = this._state.inventory;
+        if (inventory.decorations.includes(decoration)) {
+            inventory.decorations = inventory.decorations.filter(d => d !== decoration);
+        } else if (SHOP_ITEMS.some(i => i.kind === 'decoration' && i.unlocks === decoration) &&
+            isUnlocked('decoration', decoration, inventory)) {
+            // Keep the shop's order so decorations always layer the same way
+            inventory.decorations = SHOP_ITEMS
+                .filter(i => i.kind === 'decoration' && (i.unlocks === decoration || inventory.decorations.includes(i.unlocks)))
+                .map(i => i.unlocks);
+        } else {
+            return;
+        }
+        this.saveState();
+        this._postShop();
+    }
+
+    // The avatar customizer changes one part of the farmer at a time
+    public dressFarmer(part: string, choice: string) {
+        if (!isAvatarPart(part) || typeof choice !== 'string' || !Object.hasOwn(AVATAR_OPTIONS[part], choice)) return;
+        this._state.avatar = { ...this._state.avatar, [part]: choice };
+        this.saveState();
+        this._postAvatar();
+    }
+
+    // Skipping a break dries the soil, so the next plants grow slower until a full break waters it
     public skipBreak() {
+        if (!this._state.isOnBreak) return;
         this._state.isOnBreak = false;
         this._state.breakSecondsRemaining = 0;
+        this._state.soilMoisture = Math.max(this._state.soilMoisture - 1, 0);
         this._stopTimerInterval();
         this.saveState();
         this._updateWebview();
+
+        if (getSettings().showNotifications) {
+            const soil = getSoil(this._state.soilMoisture);
+            vscode.window.showInformationMessage(
+                `${soil.emoji} Break skipped, the soil is ${soil.name}: plants grow at ${Math.round(soil.growth * 100)}% speed. Take a full break to water it.`
+            );
+        }
+        this._markBreak(false);
+        this._recordEvent({ type: 'breakSkipped', breakType: this._isLongBreak() ? 'long' : 'short' });
+    }
+
+    // Notes on the session a break followed whether it was taken in full, for the garden's weather
+    private _markBreak(taken: boolean) {
+        if (this._state.breakSession) {
+            this._history.markBreak(this._state.breakSession, taken);
+            this._state.breakSession = undefined;
+            this.saveState();
+        }
     }
 
     private _startBreakTimer() {
@@ -243,28 +659,39 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
                 this.saveState();
                 this._updateWebview();
             } else {
-                // Break is over
+                // Break is over, and taking all of it waters the soil for the next plant
                 this._stopTimerInterval();
                 this._state.isOnBreak = false;
+                this._state.soilMoisture = MAX_SOIL_MOISTURE;
                 this.saveState();
                 this._updateWebview();
                 if (getSettings().showNotifications) {
                     vscode.window.showInformationMessage('⏰ Break over! Ready to grow another plant? 🌱');
                 }
+                this._markBreak(true);
+                this._recordEvent({ type: 'breakTaken', breakType: this._isLongBreak() ? 'long' : 'short' });
             }
         }, 1000);
     }
 
     public handleWindowFocusChange(focused: boolean) {
+        const wasFocused = this._isWindowFocused;
         this._isWindowFocused = focused;
         
         if (this._state.isTimerRunning) {
             if (focused) {
                 this._startTimerInterval();
             } else {
+                if (wasFocused) {
+                    this._state.pauseCount++;
+                    this._state.focusLossPauses++;
+                    // Likely switching machines, so share how far the plant got
+                    this.saveState();
+                    this._publishGarden();
+                }
                 this._stopTimerInterval();
             }
-        } else if (focused && getSettings().autoStartOnFocus && this._state.currentSessionSeconds < this._getPomodoroDurationSeconds()) {
+        } else if (focused && getSettings().autoStartOnFocus && this._state.currentSessionSeconds < this._getGrowSeconds()) {
             // Auto-start on focus if enabled and session not complete
             this.startTimer();
         }
@@ -275,8 +702,9 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
         if (this._timerInterval) return;
         
         this._timerInterval = setInterval(() => {
-            if (this._state.currentSessionSeconds < this._getPomodoroDurationSeconds()) {
+            if (this._state.currentSessionSeconds < this._getGrowSeconds()) {
                 this._state.currentSessionSeconds++;
+                addFocusSecond(this._state.fileFocus);
                 this.saveState();
                 this._updateWebview();
             } else {
@@ -298,26 +726,108 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
         }
     }
 
-    private _getCurrentStage(): typeof STAGES[number] {
-        const progress = this._state.currentSessionSeconds / this._getPomodoroDurationSeconds();
-        if (progress < 0.1) return 'dirt';
-        if (progress < 0.2) return 'watered';
-        if (progress < 0.3) return 'cracking';
-        if (progress < 0.4) return 'seedling';
-        if (progress < 0.5) return 'sprout';
-        if (progress < 0.6) return 'baby';
-        if (progress < 0.7) return 'growing';
-        if (progress < 0.8) return 'leafy';
-        if (progress < 0.9) return 'budding';
-        return 'fruiting';
+    private _getCurrentStage(): string {
+        const species = getSpecies(this._state.species);
+        const progress = this._state.currentSessionSeconds / this._getGrowSeconds();
+        return species.stages[getStageIndex(species, progress)].name;
+    }
+
+    // Everything the webview needs to draw and preview the planted species
+    private _describeSpecies() {
+        const species = getSpecies(this._state.species);
+        return {
+            species: species.id,
+            seed: this._state.plantedSeed ?? species.id,
+            genes: this._getPlantedSeed()?.genes,
+            health: getGrowingHealth(this._state.soilMoisture),
+            stages: species.stages.map((stage, i) => ({
+                name: stage.name,
+                emoji: stage.emoji,
+                span: (species.stages[i + 1]?.from ?? 1) - stage.from
+            })),
+            seeds: this._listSeeds()
+        };
+    }
+
+    // Progress toward the daily goal across all projects, or nothing when the goal is turned off
+    private _describeGoal() {
+        const settings = getSettings();
+        return settings.dailyGoal > 0
+            ? getDailyGoal(this._history.getAll(), settings.dailyGoal, settings.restDays)
+            : undefined;
+    }
+
+    private _describeSoil() {
+        return { ...getSoil(this._state.soilMoisture), moisture: this._state.soilMoisture, max: MAX_SOIL_MOISTURE };
+    }
+
+    // Fruit to spend, what's for sale and what's in use; sent when any of it may have changed
+    private _postShop() {
+        const inventory = this._state.inventory;
+        const balance = getFruitBalance(this._history.getAll(), inventory);
+        this._view?.webview.postMessage({
+            type: 'shop',
+            balance,
+            pot: inventory.pot,
+            potColors: getPotColors(inventory),
+            decorations: inventory.decorations,
+            items: SHOP_ITEMS.map(item => ({
+                id: item.id,
+                kind: item.kind,
+                name: item.name,
+                emoji: item.emoji,
+                description: item.description,
+                price: item.price,
+                unlocks: item.unlocks,
+                owned: inventory.owned.includes(item.id),
+                blocker: getPurchaseBlocker(item, inventory, balance)
+            }))
+        });
+    }
+
+    // Sent whenever a quest moves on or the board is redrawn
+    private _postQuests() {
+        const quests = this._state.quests;
+        this._view?.webview.postMessage({ type: 'quests', daily: quests.daily.map(describeQuest), weekly: quests.weekly.map(describeQuest) });
+    }
+
+    // Every badge, earned or not, for the trophy shelf
+    private _postAchievements() {
+        this._view?.webview.postMessage({
+            type: 'achievements',
+            achievements: this._achievements.getAll().map(({ unlockedAt, ...achievement }) => ({
+                ...achievement,
+                earned: unlockedAt !== undefined ? new Date(unlockedAt).toLocaleDateString() : undefined
+            }))
+        });
+    }
+
+    private _postAvatar() {
+        this._view?.webview.postMessage({ type: 'avatar', avatar: this._state.avatar, options: AVATAR_OPTIONS });
+    }
+
+    private _postSprites() {
+        this._view?.webview.postMessage({ type: 'sprites', sprites: this._sprites.getAll(), fruitColors: FRUIT_COLORS });
+    }
+
+    // Sent only when the history changes, not with the per-second updates
+    private _postGarden() {
+        this._view?.webview.postMessage({
+            type: 'garden',
+            days: buildGarden(this._history.getAll(), this._state.projectFilter),
+            crossPollinationPrice: CROSS_POLLINATION_PRICE
+        });
     }
 
     private _updateWebview() {
         if (!this._view) return;
 
         const stage = this._getCurrentStage();
-        const duration = this._getPomodoroDurationSeconds();
+        const duration = this._getGrowSeconds();
         const settings = getSettings();
+        const goal = this._describeGoal();
+        const weather = getWeather(this._history.getAll(), goal);
+        const sky = getSky(new Date(), settings.hemisphere);
         
         // Handle break time display
         if (this._state.isOnBreak) {
@@ -330,8 +840,15 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
                 isOnBreak: true,
                 breakScene: BREAK_SCENES[this._state.currentBreakScene],
                 breakTimeRemaining: breakTimeString,
-                fruitsCollected: this._state.fruitsCollected,
-                completedSessions: this._state.completedSessions
+                produce: this._getProduceToday(),
+                completedSessions: this._state.completedSessions,
+                projects: this._history.getProjects(),
+                projectFilter: this._state.projectFilter,
+                team: this._team.getToday(),
+                soil: this._describeSoil(),
+                goal,
+                weather,
+                sky
             });
             return;
         }
@@ -350,10 +867,20 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
             timeRemaining: timeString,
             isRunning: this._state.isTimerRunning,
             isFocused: this._isWindowFocused,
-            fruitsCollected: this._state.fruitsCollected,
+            produce: this._getProduceToday(),
+            ...this._describeSpecies(),
+            canChooseSeed: !this._state.isTimerRunning && this._state.currentSessionSeconds === 0,
+            projects: this._history.getProjects(),
+            projectFilter: this._state.projectFilter,
+            team: this._team.getToday(),
+            soil: this._describeSoil(),
+            goal,
+            weather,
+            sky,
             canHarvest: this._state.currentSessionSeconds >= duration,
             durationMinutes: settings.pomodoroDuration,
-            nextBreakScene: BREAK_SCENES[this._state.nextBreakScene]
+            nextBreakScene: BREAK_SCENES[this._state.nextBreakScene],
+            breakScenes: getUnlockedBreakScenes(this._state.inventory).map(i => BREAK_SCENES[i])
         });
     }
 
@@ -502,10 +1029,42 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
             box-shadow: 0 2px 8px rgba(0,0,0,0.2);
         }
 
+        .status-left {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            gap: 4px 8px;
+        }
+
+        .daily-goal {
+            display: flex;
+            align-items: center;
+            gap: 1px;
+            font-size: calc(var(--base-font) * 0.8);
+            color: var(--text-dim);
+            cursor: default;
+        }
+
+        .goal-pot {
+            filter: grayscale(1);
+            opacity: 0.35;
+        }
+
+        .goal-pot.filled {
+            filter: none;
+            opacity: 1;
+        }
+
+        .goal-streak {
+            margin-left: 4px;
+            color: var(--accent);
+        }
+
         .fruits-display {
             display: flex;
             align-items: center;
             gap: 6px;
+            cursor: pointer;
         }
 
         .fruit-icon {
@@ -561,76 +1120,601 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
             transform: rotate(45deg);
         }
 
-        .plant-stage {
-            width: clamp(100px, 50vw, 140px);
-            height: clamp(100px, 50vw, 140px);
-            position: relative;
-            display: flex;
-            align-items: flex-end;
-            justify-content: center;
-            background: radial-gradient(ellipse at center bottom, rgba(139, 199, 139, 0.08) 0%, transparent 70%);
-            border-radius: 8px;
-            margin: 4px 0;
+        .settings-btn.shop-btn:hover,
+        .settings-btn.shop-btn.open {
+            opacity: 1;
+            transform: scale(1.15);
         }
 
-        .pixel-art {
-            image-rendering: pixelated;
-            image-rendering: crisp-edges;
+        .shop {
+            width: 100%;
+            background: var(--bg-mid);
+            border: 1px solid var(--border);
+            border-radius: 6px;
+            padding: 4px 6px;
+            max-height: 320px;
+            overflow-y: auto;
         }
 
-        /* Pixel Art Plant Canvas */
-        .plant-canvas {
-            width: 100%;
-            height: 100%;
-            transition: opacity 0.3s ease;
+        .shop-header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+            color: var(--accent);
         }
 
-        .plant-canvas.fading {
-            animation: fade-in-scene 0.5s ease forwards;
+        .shop-close {
+            background: none;
+            border: none;
+            color: var(--text-dim);
+            cursor: pointer;
+            font-size: calc(var(--base-font) * 0.9);
         }
 
-        @keyframes fade-in-scene {
-            0% { opacity: 0.3; filter: blur(2px); }
-            100% { opacity: 1; filter: blur(0); }
+        .shop-section {
+            color: var(--text-dim);
+            font-size: calc(var(--base-font) * 0.8);
+            text-transform: uppercase;
+            letter-spacing: 1px;
+            border-bottom: 1px solid var(--border);
+            margin: 6px 0 2px;
         }
 
-        .timer-display {
-            font-size: calc(var(--base-font) * 2);
-            color: var(--accent);
-            text-shadow: 0 0 20px rgba(139, 199, 139, 0.4);
-            letter-spacing: 2px;
-            padding: 0.4em 0.8em;
-            background: rgba(0,0,0,0.25);
-            border-radius: 6px;
-            border: 1px solid var(--border);
+        .shop-item {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+            padding: 2px 0;
+            font-size: calc(var(--base-font) * 0.9);
         }
 
-        .timer-display.paused {
-            opacity: 0.4;
-            text-shadow: none;
-            color: var(--text-dim);
+        .shop-item .shop-name {
+            flex: 1;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
         }
 
-        .progress-bar {
-            width: 100%;
-            height: 14px;
-            background: rgba(0,0,0,0.3);
+        .shop-action {
+            font-family: inherit;
+            font-size: calc(var(--base-font) * 0.85);
+            background: rgba(0,0,0,0.2);
+            color: var(--text);
             border: 1px solid var(--border);
             border-radius: 4px;
-            overflow: hidden;
-            position: relative;
+            padding: 0 6px;
             cursor: pointer;
+            white-space: nowrap;
         }
 
-        .progress-fill {
-            height: 100%;
-            background: linear-gradient(90deg, var(--stem) 0%, var(--leaf) 50%, var(--leaf-light) 100%);
-            transition: width 0.3s ease;
-            box-shadow: inset 0 -2px 0 rgba(0,0,0,0.2), 0 0 8px rgba(74, 140, 63, 0.3);
-            pointer-events: none;
+        .shop-action:hover:not(:disabled) {
+            border-color: var(--accent);
         }
 
-        .progress-segments {
+        .shop-action:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
+
+        .shop-action.in-use {
+            color: var(--accent);
+            border-color: var(--accent);
+        }
+
+        .wardrobe-preview {
+            display: block;
+            margin: 4px auto;
+            cursor: pointer;
+        }
+
+        .wardrobe-part {
+            flex-wrap: wrap;
+            gap: 4px;
+        }
+
+        .wardrobe-label {
+            width: 60px;
+            color: var(--text-dim);
+            font-size: calc(var(--base-font) * 0.85);
+        }
+
+        .swatch {
+            width: 14px;
+            height: 14px;
+            padding: 0;
+            border: 1px solid var(--border);
+            border-radius: 3px;
+            cursor: pointer;
+        }
+
+        .swatch:hover, .swatch.in-use {
+            border-color: var(--accent);
+            box-shadow: 0 0 0 1px var(--accent);
+        }
+
+        .project-filter {
+            width: 100%;
+            font-family: 'VT323', monospace;
+            font-size: calc(var(--base-font) * 0.9);
+            color: var(--text-dim);
+            background: rgba(0,0,0,0.15);
+            border: 1px solid var(--border);
+            border-radius: 4px;
+            padding: 1px 4px;
+        }
+
+        .team-garden {
+            width: 100%;
+            border-top: 1px dashed var(--border);
+            padding-top: 4px;
+            margin-top: 4px;
+        }
+
+        .team-total {
+            text-align: center;
+            color: var(--text-dim);
+            font-size: calc(var(--base-font) * 0.9);
+        }
+
+        .team-row {
+            display: flex;
+            flex-wrap: wrap;
+            justify-content: center;
+            gap: 4px;
+        }
+
+        .teammate {
+            display: flex;
+            flex-direction: column;
+            align-items: center;
+            font-size: calc(var(--base-font) * 0.8);
+            color: var(--text-dim);
+            max-width: 56px;
+        }
+
+        .teammate.you {
+            color: var(--accent);
+        }
+
+        .teammate span {
+            max-width: 56px;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+
+        .plot-garden {
+            width: 100%;
+            border-top: 1px dashed var(--border);
+            padding-top: 4px;
+            margin-top: 4px;
+        }
+
+        .plot-title,
+        .plot-info {
+            text-align: center;
+            color: var(--text-dim);
+            font-size: calc(var(--base-font) * 0.9);
+        }
+
+        .plot-info {
+            min-height: 2.4em;
+            white-space: pre-line;
+            font-size: calc(var(--base-font) * 0.8);
+        }
+
+        .plot-scroll {
+            max-height: 220px;
+            overflow-y: auto;
+        }
+
+        .plot-day {
+            color: var(--text-dim);
+            font-size: calc(var(--base-font) * 0.8);
+            border-bottom: 1px solid var(--border);
+            margin: 4px 0 2px;
+        }
+
+        .plot-row {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 2px;
+        }
+
+        .plot {
+            width: 40px;
+            height: 40px;
+            background: rgba(92, 61, 36, 0.35);
+            border: 1px solid rgba(92, 61, 36, 0.6);
+            border-radius: 2px;
+        }
+
+        .plot:hover {
+            border-color: var(--accent);
+        }
+
+        .plot.picked {
+            border-color: var(--accent);
+            box-shadow: 0 0 6px var(--accent);
+        }
+
+        .breed-bar {
+            display: flex;
+            flex-wrap: wrap;
+            justify-content: space-between;
+            align-items: center;
+            gap: 4px;
+            margin-top: 4px;
+            font-size: calc(var(--base-font) * 0.8);
+            color: var(--text-dim);
+        }
+
+        .plot.fresh {
+            animation: plot-sprout 1.5s ease-out;
+        }
+
+        @keyframes plot-sprout {
+            0% { transform: scale(0.3); box-shadow: 0 0 12px var(--accent); }
+            100% { transform: scale(1); box-shadow: none; }
+        }
+
+        .quest-board {
+            width: 100%;
+            border-top: 1px dashed var(--border);
+            padding-top: 4px;
+            margin-top: 4px;
+        }
+
+        .quest {
+            display: flex;
+            align-items: center;
+            gap: 4px;
+            font-size: calc(var(--base-font) * 0.8);
+            padding: 1px 0;
+        }
+
+        .quest-title {
+            flex: 1;
+        }
+
+        .quest-reward {
+            color: var(--text-dim);
+        }
+
+        .quest-bar {
+            width: 36px;
+            height: 6px;
+            background: rgba(0,0,0,0.25);
+            border: 1px solid var(--border);
+        }
+
+        .quest-bar div {
+            height: 100%;
+            background: var(--leaf);
+        }
+
+        .quest.done .quest-title {
+            text-decoration: line-through;
+            color: var(--text-dim);
+        }
+
+        .quest.failed {
+            opacity: 0.5;
+        }
+
+        .trophy-shelf {
+            width: 100%;
+            border-top: 1px dashed var(--border);
+            padding-top: 4px;
+            margin-top: 4px;
+        }
+
+        .trophy-row {
+            display: flex;
+            flex-wrap: wrap;
+            justify-content: center;
+            gap: 3px;
+            padding: 2px 0;
+            border-bottom: 4px solid rgba(139, 90, 43, 0.8);
+        }
+
+        .badge {
+            width: 36px;
+            height: 36px;
+        }
+
+        .badge.fresh {
+            animation: plot-sprout 1.5s ease-out;
+        }
+
+        .seed-picker {
+            display: flex;
+            flex-wrap: wrap;
+            justify-content: center;
+            gap: 4px;
+        }
+
+        .seed-btn {
+            background: rgba(0,0,0,0.15);
+            border: 1px solid var(--border);
+            border-radius: 4px;
+            font-size: calc(var(--base-font) * 1.1);
+            padding: 1px 4px;
+            cursor: pointer;
+            opacity: 0.5;
+            transition: all 0.2s;
+        }
+
+        .seed-btn:hover, .seed-btn.selected {
+            opacity: 1;
+        }
+
+        .seed-btn.bred {
+            border-style: dashed;
+        }
+
+        .seed-btn.selected {
+            border-color: var(--leaf);
+            box-shadow: 0 0 6px rgba(74,140,63,0.5);
+        }
+
+        .plant-stage {
+            width: clamp(100px, 50vw, 140px);
+            height: clamp(100px, 50vw, 140px);
+            position: relative;
+            display: flex;
+            align-items: flex-end;
+            justify-content: center;
+            background: radial-gradient(ellipse at center bottom, rgba(139, 199, 139, 0.08) 0%, transparent 70%);
+            border-radius: 8px;
+            margin: 4px 0;
+        }
+
+        .pixel-art {
+            image-rendering: pixelated;
+            image-rendering: crisp-edges;
+        }
+
+        /* Pixel Art Plant Canvas */
+        .plant-canvas {
+            position: relative;
+            width: 100%;
+            height: 100%;
+            transition: opacity 0.3s ease;
+        }
+
+        /* Sky behind the pot, following the local clock and the season */
+        .sky, .season {
+            position: absolute;
+            top: 0;
+            left: 0;
+            right: 0;
+            bottom: 0;
+            overflow: hidden;
+            border-radius: 8px;
+            pointer-events: none;
+        }
+
+        .sky.dawn { background: linear-gradient(to bottom, rgba(255, 183, 130, 0.3), rgba(255, 220, 180, 0.05)); }
+        .sky.day { background: linear-gradient(to bottom, rgba(122, 180, 212, 0.25), rgba(168, 216, 234, 0.05)); }
+        .sky.dusk { background: linear-gradient(to bottom, rgba(142, 68, 173, 0.3), rgba(243, 156, 18, 0.15)); }
+        .sky.night { background: linear-gradient(to bottom, rgba(16, 22, 46, 0.7), rgba(28, 39, 71, 0.3)); }
+
+        .sky-star {
+            position: absolute;
+            display: none;
+            width: 2px;
+            height: 2px;
+            background: #f4f4a0;
+            animation: twinkle 3s ease-in-out infinite;
+        }
+
+        .sky.night .sky-star {
+            display: block;
+        }
+
+        .sky-star:nth-child(1) { top: 8%; left: 14%; }
+        .sky-star:nth-child(2) { top: 20%; left: 36%; animation-delay: -1s; }
+        .sky-star:nth-child(3) { top: 6%; left: 58%; animation-delay: -2s; }
+        .sky-star:nth-child(4) { top: 26%; left: 80%; animation-delay: -0.5s; }
+        .sky-star:nth-child(5) { top: 38%; left: 8%; animation-delay: -1.5s; }
+
+        /* The sun is a moon at night */
+        .sky.night ~ .weather .weather-sun {
+            background: #f0ecc8;
+        }
+
+        .season-flake {
+            position: absolute;
+            top: -6%;
+            display: none;
+            width: 3px;
+            height: 3px;
+            border-radius: 50%;
+            animation: season-fall 9s linear infinite;
+        }
+
+        .season.spring .season-flake,
+        .season.autumn .season-flake,
+        .season.winter .season-flake {
+            display: block;
+        }
+
+        .season.spring .season-flake { background: rgba(244, 143, 177, 0.8); }
+        .season.autumn .season-flake { width: 4px; border-radius: 0 3px; background: rgba(211, 84, 0, 0.8); }
+        .season.autumn .season-flake:nth-child(even) { background: rgba(196, 160, 48, 0.8); }
+        .season.winter .season-flake { background: rgba(255, 255, 255, 0.85); }
+
+        .season-flake:nth-child(1) { left: 10%; animation-delay: -1s; }
+        .season-flake:nth-child(2) { left: 26%; animation-delay: -6s; animation-duration: 11s; }
+        .season-flake:nth-child(3) { left: 44%; animation-delay: -3s; }
+        .season-flake:nth-child(4) { left: 60%; animation-delay: -8s; animation-duration: 12s; }
+        .season-flake:nth-child(5) { left: 76%; animation-delay: -4.5s; }
+        .season-flake:nth-child(6) { left: 90%; animation-delay: -2s; animation-duration: 10s; }
+
+        @keyframes twinkle {
+            0%, 100% { opacity: 0.3; }
+            50% { opacity: 1; }
+        }
+
+        @keyframes season-fall {
+            0% { top: -6%; transform: translateX(0) rotate(0deg); }
+            50% { transform: translateX(8px) rotate(180deg); }
+            100% { top: 100%; transform: translateX(-4px) rotate(360deg); }
+        }
+
+        /* Weather behind the plant, from the last few days of sessions */
+        .weather {
+            position: absolute;
+            top: 0;
+            left: 0;
+            right: 0;
+            bottom: 0;
+            overflow: hidden;
+            border-radius: 8px;
+            pointer-events: none;
+        }
+
+        .weather > div {
+            position: absolute;
+            display: none;
+        }
+
+        .weather.sunny .weather-sun,
+        .weather.rainbow .weather-sun,
+        .weather.rainbow .weather-rainbow,
+        .weather.cloudy .weather-clouds,
+        .weather.rainy .weather-clouds,
+        .weather.rainy .weather-rain {
+            display: block;
+        }
+
+        .weather-sun {
+            top: 8%;
+            right: 10%;
+            width: 16%;
+            height: 16%;
+            border-radius: 50%;
+            background: #f4d03f;
+            animation: sun-glow 4s ease-in-out infinite;
+        }
+
+        .weather-rainbow {
+            left: 4%;
+            right: 4%;
+            top: 14%;
+            height: 70%;
+            border-radius: 50% 50% 0 0 / 100% 100% 0 0;
+            background: radial-gradient(ellipse at 50% 100%, transparent 55%,
+                rgba(231, 76, 60, 0.35) 55%, rgba(243, 156, 18, 0.35) 62%, rgba(241, 196, 15, 0.35) 69%,
+                rgba(46, 204, 113, 0.35) 76%, rgba(52, 152, 219, 0.35) 83%, rgba(155, 89, 182, 0.35) 90%, transparent 97%);
+            animation: rainbow-shimmer 6s ease-in-out infinite;
+        }
+
+        .weather-clouds, .weather-rain {
+            top: 0;
+            left: 0;
+            right: 0;
+            bottom: 0;
+        }
+
+        .weather-cloud {
+            position: absolute;
+            width: 36%;
+            height: 11%;
+            border-radius: 10px;
+            background: rgba(200, 205, 215, 0.5);
+            animation: cloud-drift 26s linear infinite;
+        }
+
+        .weather.rainy .weather-cloud {
+            background: rgba(130, 140, 160, 0.6);
+        }
+
+        .weather-cloud:nth-child(1) { top: 6%; animation-delay: -6s; }
+        .weather-cloud:nth-child(2) { top: 17%; width: 28%; animation-duration: 34s; animation-delay: -22s; }
+
+        .weather-drop {
+            position: absolute;
+            width: 1px;
+            height: 8%;
+            background: rgba(122, 180, 212, 0.7);
+            animation: rain-fall 1.1s linear infinite;
+        }
+
+        .weather-drop:nth-child(1) { left: 12%; animation-delay: -0.1s; }
+        .weather-drop:nth-child(2) { left: 27%; animation-delay: -0.6s; }
+        .weather-drop:nth-child(3) { left: 41%; animation-delay: -0.3s; }
+        .weather-drop:nth-child(4) { left: 58%; animation-delay: -0.9s; }
+        .weather-drop:nth-child(5) { left: 73%; animation-delay: -0.4s; }
+        .weather-drop:nth-child(6) { left: 88%; animation-delay: -0.8s; }
+
+        @keyframes sun-glow {
+            0%, 100% { box-shadow: 0 0 8px 2px rgba(244, 208, 63, 0.4); }
+            50% { box-shadow: 0 0 14px 5px rgba(244, 208, 63, 0.6); }
+        }
+
+        @keyframes rainbow-shimmer {
+            0%, 100% { opacity: 0.7; }
+            50% { opacity: 1; }
+        }
+
+        @keyframes cloud-drift {
+            0% { left: -40%; }
+            100% { left: 100%; }
+        }
+
+        @keyframes rain-fall {
+            0% { top: -10%; }
+            100% { top: 100%; }
+        }
+
+        .plant-canvas.fading {
+            animation: fade-in-scene 0.5s ease forwards;
+        }
+
+        @keyframes fade-in-scene {
+            0% { opacity: 0.3; filter: blur(2px); }
+            100% { opacity: 1; filter: blur(0); }
+        }
+
+        .timer-display {
+            font-size: calc(var(--base-font) * 2);
+            color: var(--accent);
+            text-shadow: 0 0 20px rgba(139, 199, 139, 0.4);
+            letter-spacing: 2px;
+            padding: 0.4em 0.8em;
+            background: rgba(0,0,0,0.25);
+            border-radius: 6px;
+            border: 1px solid var(--border);
+        }
+
+        .timer-display.paused {
+            opacity: 0.4;
+            text-shadow: none;
+            color: var(--text-dim);
+        }
+
+        .progress-bar {
+            width: 100%;
+            height: 14px;
+            background: rgba(0,0,0,0.3);
+            border: 1px solid var(--border);
+            border-radius: 4px;
+            overflow: hidden;
+            position: relative;
+            cursor: pointer;
+        }
+
+        .progress-fill {
+            height: 100%;
+            background: linear-gradient(90deg, var(--stem) 0%, var(--leaf) 50%, var(--leaf-light) 100%);
+            transition: width 0.3s ease;
+            box-shadow: inset 0 -2px 0 rgba(0,0,0,0.2), 0 0 8px rgba(74, 140, 63, 0.3);
+            pointer-events: none;
+        }
+
+        .progress-segments {
             position: absolute;
             top: 0;
             left: 0;
@@ -823,6 +1907,16 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
             font-size: calc(var(--base-font) * 1.7);
         }
 
+        .soil-indicator {
+            font-size: calc(var(--base-font) * 0.8);
+            color: var(--text-dim);
+            cursor: help;
+        }
+
+        .soil-indicator.dry {
+            color: var(--pot-light);
+        }
+
         .stage-label {
             font-size: calc(var(--base-font) * 0.9);
             color: var(--text-dim);
@@ -864,21 +1958,79 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
     </div>
     <div class="garden-container">
         <div class="status-bar">
-            <div class="fruits-display">
-                <span class="fruit-icon">🍅</span>
-                <span class="fruit-count" id="fruitCount">0</span>
+            <div class="status-left">
+                <div class="fruits-display" id="fruitsDisplay" title="Show statistics">
+                    <span class="fruit-icon">🍅</span>
+                    <span class="fruit-count">0</span>
+                </div>
+                <div class="daily-goal" id="dailyGoal" style="display: none;"></div>
             </div>
             <div class="status-right">
                 <div class="focus-indicator" id="focusIndicator" title="Editor Focus"></div>
+                <button class="settings-btn shop-btn" id="wardrobeBtn" title="Dress your farmer">👨‍🌾</button>
+                <button class="settings-btn shop-btn" id="shopBtn" title="Shop">🛒</button>
                 <button class="settings-btn" id="settingsBtn" title="Settings">⚙️</button>
             </div>
         </div>
 
-        <div class="plant-stage">
+        <div class="shop" id="shop" style="display: none;">
+            <div class="shop-header">
+                <span id="shopBalance"></span>
+                <button class="shop-close" id="shopClose" title="Close the shop">✕</button>
+            </div>
+            <div id="shopItems"></div>
+        </div>
+
+        <div class="shop" id="wardrobe" style="display: none;">
+            <div class="shop-header">
+                <span>👨‍🌾 Your farmer</span>
+                <button class="shop-close" id="wardrobeClose" title="Close the wardrobe">✕</button>
+            </div>
+            <canvas id="wardrobePreview" class="wardrobe-preview pixel-art" width="105" height="105" title="Click for another break scene"></canvas>
+            <div id="wardrobeParts"></div>
+        </div>
+
+        <select class="project-filter" id="projectFilter" title="Count fruit for one project" style="display: none;"></select>
+
+        <div class="seed-picker" id="seedPicker" style="display: none;"></div>
+
+        <div class="plant-stage" id="plantStage">
+            <div class="sky" id="sky">
+                <div class="sky-star"></div>
+                <div class="sky-star"></div>
+                <div class="sky-star"></div>
+                <div class="sky-star"></div>
+                <div class="sky-star"></div>
+            </div>
+            <div class="weather" id="weather">
+                <div class="weather-rainbow"></div>
+                <div class="weather-sun"></div>
+                <div class="weather-clouds">
+                    <div class="weather-cloud"></div>
+                    <div class="weather-cloud"></div>
+                </div>
+                <div class="weather-rain">
+                    <div class="weather-drop"></div>
+                    <div class="weather-drop"></div>
+                    <div class="weather-drop"></div>
+                    <div class="weather-drop"></div>
+                    <div class="weather-drop"></div>
+                    <div class="weather-drop"></div>
+                </div>
+            </div>
+            <div class="season" id="season">
+                <div class="season-flake"></div>
+                <div class="season-flake"></div>
+                <div class="season-flake"></div>
+                <div class="season-flake"></div>
+                <div class="season-flake"></div>
+                <div class="season-flake"></div>
+            </div>
             <canvas id="plantCanvas" class="plant-canvas pixel-art" width="140" height="140"></canvas>
         </div>
 
         <div class="stage-label" id="stageLabel">dirt</div>
+        <div class="soil-indicator" id="soilIndicator"></div>
 
         <div class="timer-display" id="timerDisplay">20:00</div>
 
@@ -906,6 +2058,32 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
                 Skip Break →
             </button>
         </div>
+
+        <div class="team-garden" id="teamGarden" style="display: none;">
+            <div class="team-total" id="teamTotal"></div>
+            <div class="team-row" id="teamRow"></div>
+        </div>
+
+        <div class="quest-board" id="questBoard" style="display: none;">
+            <div class="plot-title">📜 quests</div>
+            <div id="questList"></div>
+        </div>
+
+        <div class="plot-garden" id="plotGarden" style="display: none;">
+            <div class="plot-title" id="plotTitle"></div>
+            <div class="plot-scroll" id="plotScroll"></div>
+            <div class="breed-bar" id="breedBar" style="display: none;">
+                <span id="breedInfo"></span>
+                <button class="shop-action" id="breedBtn"></button>
+            </div>
+            <div class="plot-info" id="plotInfo"></div>
+        </div>
+
+        <div class="trophy-shelf" id="trophyShelf" style="display: none;">
+            <div class="plot-title" id="trophyTitle"></div>
+            <div class="trophy-row" id="trophyRow"></div>
+            <div class="plot-info" id="trophyInfo"></div>
+        </div>
     </div>
 
     <script>
@@ -923,44 +2101,58 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
         const stopBtn = document.getElementById('stopBtn');
         const harvestBtn = document.getElementById('harvestBtn');
         const focusIndicator = document.getElementById('focusIndicator');
-        const fruitCount = document.getElementById('fruitCount');
+        const fruitsDisplay = document.getElementById('fruitsDisplay');
+        const dailyGoal = document.getElementById('dailyGoal');
+        const seedPicker = document.getElementById('seedPicker');
         const stageLabel = document.getElementById('stageLabel');
+        const soilIndicator = document.getElementById('soilIndicator');
         const pausedNotice = document.getElementById('pausedNotice');
+        const projectFilter = document.getElementById('projectFilter');
 
-        // Stage names for preview (10 plant stages + 1 break scene)
-        const stageNames = [
-            'dirt', 'watered', 'cracking', 'seedling', 'sprout',
-            'baby', 'growing', 'leafy', 'budding', 'fruiting'
-        ];
-        const stageEmojis = ['🪴', '💧', '🌰', '🌱', '🌿', '🪻', '🌳', '🍃', '🌸', '🍅'];
         
-        // Break scene names and emojis
-        const breakSceneNames = ['hayBale', 'lemonade', 'fishing', 'treeNap'];
-        const breakSceneLabels = ['hay bale rest', 'lemonade time', 'fishing', 'tree nap'];
-        const breakSceneEmojis = ['🌾', '🍋', '🎣', '😴'];
+        // Break scene labels and emojis
+        const breakSceneLabels = {
+            hayBale: ['hay bale rest', '🌾'],
+            lemonade: ['lemonade time', '🍋'],
+            fishing: ['fishing', '🎣'],
+            treeNap: ['tree nap', '😴'],
+            campfire: ['campfire', '🔥'],
+            stargazing: ['stargazing', '🌠']
+        };
+        // Scenes that are free or bought in the shop
+        let breakSceneNames = ['hayBale', 'lemonade', 'fishing', 'treeNap'];
         
+        let currentSpecies = 'tomato';
+        let currentHealth = 'healthy';
+        let currentGenes;
+        let showingBreak = false;
         let currentActualStage = 'dirt';
         let isPreviewingStage = false;
         let currentNextBreakScene = 'hayBale';
 
-        // Create progress bar segments (10 for plants + 1 for break preview)
-        stageNames.forEach((name, index) => {
-            const segment = document.createElement('div');
-            segment.className = 'progress-segment';
-            segment.dataset.stage = name;
-            segment.dataset.index = index;
-            segment.dataset.isBreak = 'false';
-            
-            segment.addEventListener('mouseenter', () => {
-                isPreviewingStage = true;
-                drawPlant(name);
-                stageLabel.textContent = name + ' (preview)';
-                previewLabel.textContent = stageEmojis[index] + ' ' + name;
-                previewIndicator.classList.remove('visible');
+        // One progress bar segment per stage of the planted species, sized by how long
+        // the stage lasts, followed by the break preview segment
+        function buildStageSegments(stages) {
+            progressSegments.querySelectorAll('.progress-segment:not(.break-segment)').forEach(s => s.remove());
+            stages.forEach((stage, index) => {
+                const segment = document.createElement('div');
+                segment.className = 'progress-segment';
+                segment.style.flexGrow = stage.span * 10;
+                segment.dataset.stage = stage.name;
+                segment.dataset.index = index;
+                segment.dataset.isBreak = 'false';
+
+                segment.addEventListener('mouseenter', () => {
+                    isPreviewingStage = true;
+                    drawPlant(currentSpecies, stage.name, currentHealth, currentGenes);
+                    stageLabel.textContent = stage.name + ' (preview)';
+                    previewLabel.textContent = stage.emoji + ' ' + stage.name;
+                    previewIndicator.classList.remove('visible');
+                });
+
+                progressSegments.insertBefore(segment, breakSegment);
             });
-            
-            progressSegments.appendChild(segment);
-        });
+        }
 
         // Add break scene segment at the end
         const breakSegment = document.createElement('div');
@@ -969,9 +2161,9 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
         
         function updateBreakPreview() {
             drawFarmerBreak(currentNextBreakScene);
-            const sceneIndex = breakSceneNames.indexOf(currentNextBreakScene);
-            stageLabel.textContent = '☕ ' + breakSceneLabels[sceneIndex] + ' (next)';
-            previewLabel.textContent = breakSceneEmojis[sceneIndex] + ' break reward!';
+            const [label, emoji] = breakSceneLabels[currentNextBreakScene] || [currentNextBreakScene, '☕'];
+            stageLabel.textContent = '☕ ' + label + ' (next)';
+            previewLabel.textContent = emoji + ' break reward!';
         }
         
         breakSegment.addEventListener('mouseenter', () => {
@@ -985,28 +2177,18 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
         
         breakSegment.addEventListener('mouseleave', () => {
             plantCanvas.classList.remove('fading');
-            stopAllBreakAnimations();
+            stopSceneAnimation();
         });
         
-        function stopAllBreakAnimations() {
-            stopFishingAnimation();
-            stopHayAnimation();
-            stopLemonadeAnimation();
-            stopNapAnimation();
-        }
-        
         // Easter egg: click to cycle through break activities!
         breakSegment.addEventListener('click', () => {
-            // Stop any current animation
-            stopFishingAnimation();
-            
             // Cycle to next scene
             const currentIndex = breakSceneNames.indexOf(currentNextBreakScene);
             const nextIndex = (currentIndex + 1) % breakSceneNames.length;
             currentNextBreakScene = breakSceneNames[nextIndex];
             
             // Tell extension to save the new choice
-            vscode.postMessage({ command: 'changeBreakScene', scene: nextIndex });
+            vscode.postMessage({ command: 'changeBreakScene', scene: currentNextBreakScene });
             
             // Add a little animation feedback
             plantCanvas.classList.remove('fading');
@@ -1022,994 +2204,256 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
         progressBar.addEventListener('mouseleave', () => {
             isPreviewingStage = false;
             plantCanvas.classList.remove('fading');
-            stopAllBreakAnimations();
-            drawPlant(currentActualStage);
+            stopSceneAnimation();
+            drawPlant(currentSpecies, currentActualStage, currentHealth, currentGenes);
             stageLabel.textContent = currentActualStage;
             previewIndicator.classList.add('visible');
             setTimeout(() => {
                 if (!isPreviewingStage) {
                     previewIndicator.classList.remove('visible');
                 }
-            }, 2000);
-        });
-
-        // Pixel art colors
-        const colors = {
-            soil: '#3d2817',
-            soilLight: '#5c3d24',
-            pot: '#8b4513',
-            potDark: '#5d2e0a',
-            potLight: '#a0522d',
-            potRim: '#c4713b',
-            stem: '#2d5a27',
-            stemDark: '#1e3d1a',
-            leaf: '#4a8c3f',
-            leafLight: '#6db35f',
-            leafDark: '#3a6d32',
-            flower: '#e85d75',
-            flowerLight: '#ff8fa3',
-            flowerCenter: '#f4d03f',
-            fruit: '#e74c3c',
-            fruitShine: '#ff6b6b',
-            fruitDark: '#c0392b'
-        };
-
-        const OFFSET_Y = 5; // Shift everything down
-        const OFFSET_X = 2; // Shift everything right to center
-        
-        function drawPixel(x, y, color, size = 4) {
-            ctx.fillStyle = color;
-            ctx.fillRect((x + OFFSET_X) * size, (y + OFFSET_Y) * size, size, size);
-        }
-
-        function drawPlant(stage) {
-            ctx.clearRect(0, 0, 140, 140);
-            
-            // Draw pot (always present)
-            drawPot();
-            
-            switch(stage) {
-                case 'dirt':
-                    drawDirt();
-                    break;
-                case 'watered':
-                    drawWateredDirt();
-                    break;
-                case 'cracking':
-                    drawCrackingDirt();
-                    break;
-                case 'seedling':
-                    drawSeedling();
-                    break;
-                case 'sprout':
-                    drawSprout();
-                    break;
-                case 'baby':
-                    drawBabyPlant();
-                    break;
-                case 'growing':
-                    drawGrowingPlant();
-                    break;
-                case 'leafy':
-                    drawLeafyPlant();
-                    break;
-                case 'budding':
-                    drawBuddingPlant();
-                    break;
-                case 'fruiting':
-                    drawFruitingPlant();
-                    break;
-            }
-        }
-
-        function drawPot() {
-            // Pot body
-            for (let y = 22; y <= 28; y++) {
-                const offset = Math.floor((y - 22) * 0.3);
-                for (let x = 10 + offset; x <= 20 - offset; x++) {
-                    drawPixel(x, y, colors.pot);
-                }
-            }
-            // Pot rim
-            for (let x = 9; x <= 21; x++) {
-                drawPixel(x, 21, colors.potRim);
-            }
-            // Pot shading
-            for (let y = 22; y <= 28; y++) {
-                const offset = Math.floor((y - 22) * 0.3);
-                drawPixel(10 + offset, y, colors.potLight);
-                drawPixel(20 - offset, y, colors.potDark);
-            }
-            // Pot bottom
-            for (let x = 12; x <= 18; x++) {
-                drawPixel(x, 29, colors.potDark);
-            }
-        }
+            }, 2000);
+        });
 
-        // Stage 1: Bare dirt
-        function drawDirt() {
-            for (let x = 11; x <= 19; x++) {
-                drawPixel(x, 20, colors.soil);
-                if (x >= 12 && x <= 18) {
-                    drawPixel(x, 19, colors.soilLight);
+        // ========== SPRITES ==========
+        // Sprites arrive from the extension: built-ins plus any valid custom sprite packs.
+        // Each is a palette plus rows of palette keys ('.' is transparent), drawn in 4px cells.
+        let sprites = { plant: {}, scene: {}, decoration: {}, badge: {} };
+        const CELL = 4;
+
+        function drawGrid(rows, palette, target = ctx, cell = CELL) {
+            rows.forEach((row, y) => {
+                for (let x = 0; x < row.length; x++) {
+                    const key = row[x];
+                    if (key === '.') continue;
+                    target.fillStyle = palette[key];
+                    target.fillRect(x * cell, y * cell, cell, cell);
                 }
-            }
+            });
         }
 
-        // Stage 2: Watered/wet soil
-        function drawWateredDirt() {
-            for (let x = 11; x <= 19; x++) {
-                drawPixel(x, 20, '#2a1a0f'); // darker wet soil
-                if (x >= 12 && x <= 18) {
-                    drawPixel(x, 19, colors.soil);
-                }
+        function drawSprite(sprite, layer, basePalette = sprite.palette, layerPalette = sprite.palette) {
+            drawGrid(sprite.base, basePalette);
+            if (layer) {
+                drawGrid(layer, layerPalette);
             }
-            // Water droplet sparkle
-            drawPixel(14, 19, '#5a7a9a');
-            drawPixel(16, 20, '#5a7a9a');
         }
 
-        // Stage 3: Soil cracking
-        function drawCrackingDirt() {
-            for (let x = 11; x <= 19; x++) {
-                drawPixel(x, 20, colors.soil);
-                if (x >= 12 && x <= 18) {
-                    drawPixel(x, 19, colors.soilLight);
+        // Decorations go down first so the pot and plant always stay in front
+        function drawPlant(species, stage, health = 'healthy', genes) {
+            stopSceneAnimation();
+            ctx.clearRect(0, 0, 140, 140);
+            placedDecorations.forEach(id => {
+                const decoration = sprites.decoration[id];
+                if (decoration) {
+                    drawGrid(decoration.base, decoration.palette);
                 }
-            }
-            // Cracks in soil
-            drawPixel(15, 19, '#4a3020');
-            drawPixel(15, 18, '#4a3020');
-            drawPixel(14, 19, '#4a3020');
-        }
-
-        // Stage 4: Tiny seedling peeking
-        function drawSeedling() {
-            drawDirt();
-            // Just a tiny green dot peeking out
-            drawPixel(15, 18, '#5a9a4a');
-            drawPixel(15, 17, colors.leafLight);
-        }
-
-        // Stage 5: Small sprout with cotyledons
-        function drawSprout() {
-            drawDirt();
-            drawPixel(15, 18, colors.stem);
-            drawPixel(15, 17, colors.stem);
-            drawPixel(15, 16, colors.stem);
-            // Cotyledon leaves (seed leaves)
-            drawPixel(14, 15, colors.leafLight);
-            drawPixel(16, 15, colors.leafLight);
-        }
-
-        // Stage 6: Baby plant with first true leaves
-        function drawBabyPlant() {
-            drawDirt();
-            // Stem
-            for (let y = 18; y >= 14; y--) {
-                drawPixel(15, y, colors.stem);
-            }
-            // Cotyledons (lower)
-            drawPixel(13, 16, colors.leafDark);
-            drawPixel(17, 16, colors.leafDark);
-            // First true leaves (upper, bigger)
-            drawPixel(14, 14, colors.leaf);
-            drawPixel(13, 13, colors.leafLight);
-            drawPixel(16, 14, colors.leaf);
-            drawPixel(17, 13, colors.leafLight);
-        }
-
-        // Stage 7: Growing taller
-        function drawGrowingPlant() {
-            drawDirt();
-            // Taller stem
-            for (let y = 18; y >= 11; y--) {
-                drawPixel(15, y, colors.stem);
-            }
-            // Lower leaves
-            drawPixel(13, 16, colors.leafDark);
-            drawPixel(17, 16, colors.leafDark);
-            // Middle leaves
-            drawPixel(13, 14, colors.leaf);
-            drawPixel(14, 13, colors.leafLight);
-            drawPixel(17, 14, colors.leaf);
-            drawPixel(16, 13, colors.leafLight);
-            // Top leaves
-            drawPixel(14, 10, colors.leafLight);
-            drawPixel(16, 10, colors.leafLight);
-        }
-
-        // Stage 8: Leafy and bushy
-        function drawLeafyPlant() {
-            drawDirt();
-            // Main stem
-            for (let y = 18; y >= 8; y--) {
-                drawPixel(15, y, colors.stem);
-            }
-            // Branch stems
-            drawPixel(14, 14, colors.stemDark);
-            drawPixel(16, 12, colors.stemDark);
-            
-            // Lots of leaves!
-            drawPixel(12, 16, colors.leafDark);
-            drawPixel(13, 15, colors.leaf);
-            drawPixel(18, 16, colors.leafDark);
-            drawPixel(17, 15, colors.leaf);
-            
-            drawPixel(12, 13, colors.leaf);
-            drawPixel(13, 12, colors.leafLight);
-            drawPixel(18, 13, colors.leaf);
-            drawPixel(17, 12, colors.leafLight);
-            
-            drawPixel(13, 9, colors.leafLight);
-            drawPixel(14, 8, colors.leaf);
-            drawPixel(17, 9, colors.leafLight);
-            drawPixel(16, 8, colors.leaf);
-            
-            // Top tuft
-            drawPixel(14, 6, colors.leafLight);
-            drawPixel(15, 5, colors.leaf);
-            drawPixel(16, 6, colors.leafLight);
-        }
-
-        // Stage 9: Flower bud forming
-        function drawBuddingPlant() {
-            drawDirt();
-            // Main stem
-            for (let y = 18; y >= 6; y--) {
-                drawPixel(15, y, colors.stem);
-            }
-            // Branch
-            drawPixel(14, 10, colors.stemDark);
-            drawPixel(13, 9, colors.stem);
-            
-            // Leaves
-            drawPixel(12, 16, colors.leafDark);
-            drawPixel(13, 15, colors.leaf);
-            drawPixel(18, 16, colors.leafDark);
-            drawPixel(17, 15, colors.leaf);
-            drawPixel(12, 12, colors.leaf);
-            drawPixel(13, 11, colors.leafLight);
-            drawPixel(18, 12, colors.leaf);
-            drawPixel(17, 11, colors.leafLight);
-            
-            // Flower bud (closed)
-            drawPixel(15, 4, colors.stem); // stem
-            drawPixel(14, 4, colors.leafDark); // sepal
-            drawPixel(16, 4, colors.leafDark); // sepal
-            drawPixel(15, 3, '#c4a030'); // yellow bud tip
-            drawPixel(14, 3, colors.flower); // pink showing
-            drawPixel(16, 3, colors.flower);
-            
-            // Secondary bud on branch
-            drawPixel(12, 8, colors.leafDark);
-            drawPixel(12, 7, '#c4a030');
+            });
+            const sprite = sprites.plant[species];
+            if (!sprite) return;
+            drawSprite(sprite, getStageRows(sprite, stage, genes), getPotPalette(sprite), getPlantPalette(sprite, health, genes));
         }
 
-        // Stage 10: Full fruiting plant!
-        function drawFruitingPlant() {
-            drawDirt();
-            // Main stem
-            for (let y = 18; y >= 5; y--) {
-                drawPixel(15, y, colors.stem);
-            }
-            // Branches
-            drawPixel(14, 11, colors.stemDark);
-            drawPixel(13, 10, colors.stem);
-            drawPixel(12, 9, colors.stem);
-            drawPixel(16, 8, colors.stemDark);
-            drawPixel(17, 7, colors.stem);
-            
-            // Leaves
-            drawPixel(12, 16, colors.leafDark);
-            drawPixel(13, 15, colors.leaf);
-            drawPixel(18, 16, colors.leafDark);
-            drawPixel(17, 15, colors.leaf);
-            drawPixel(18, 12, colors.leaf);
-            drawPixel(17, 11, colors.leafLight);
-            drawPixel(19, 8, colors.leafLight);
-            
-            // Main fruit (big tomato!)
-            drawPixel(14, 3, colors.fruit);
-            drawPixel(15, 3, colors.fruit);
-            drawPixel(16, 3, colors.fruitDark);
-            drawPixel(13, 4, colors.fruitShine);
-            drawPixel(14, 4, colors.fruit);
-            drawPixel(15, 4, colors.fruit);
-            drawPixel(16, 4, colors.fruitDark);
-            drawPixel(14, 5, colors.fruit);
-            drawPixel(15, 5, colors.fruitDark);
-            drawPixel(15, 2, colors.stem); // stem
-            drawPixel(14, 2, colors.leafLight); // leaf
-            drawPixel(16, 2, colors.leafDark);
-            
-            // Second fruit on branch
-            drawPixel(11, 8, colors.fruitShine);
-            drawPixel(12, 8, colors.fruit);
-            drawPixel(11, 9, colors.fruit);
-            drawPixel(12, 9, colors.fruitDark);
-            drawPixel(12, 7, colors.stem);
-            
-            // Third small fruit
-            drawPixel(18, 6, colors.fruit);
-            drawPixel(19, 6, colors.fruitDark);
-            drawPixel(18, 5, colors.stem);
-        }
-
-        // ========== FARMER BREAK SCENES ==========
-        const farmerColors = {
-            skin: '#e8b89d',
-            skinShadow: '#c99a7c',
-            hat: '#c4713b',
-            hatBand: '#8b4513',
-            overalls: '#4a6fa5',
-            overallsDark: '#3a5a8a',
-            shirt: '#d44a4a',
-            shirtDark: '#a83939',
-            hay: '#d4a855',
-            hayDark: '#b8923a',
-            wood: '#8b6914',
-            woodDark: '#6b5010',
-            lemonade: '#f4e04d',
-            glass: '#a8d8ea',
-            water: '#5a9fd4',
-            waterDark: '#4080b0',
-            chicken: '#f5f5dc',
-            chickenBeak: '#ff9933',
-            chickenComb: '#cc3333'
-        };
+        // Pot styles from the shop swap the classic clay pot's colors in the base layer
+        let potColors = {};
+        let placedDecorations = [];
+        const potPalettes = new Map();
 
-        function drawFarmerBreak(scene) {
-            // Stop ALL animations before starting a new scene
-            stopAllBreakAnimations();
-            ctx.clearRect(0, 0, 140, 140);
-            
-            switch(scene) {
-                case 'hayBale':
-                    drawHayBaleScene();
-                    break;
-                case 'lemonade':
-                    drawLemonadeScene();
-                    break;
-                case 'fishing':
-                    drawFishingScene();
-                    break;
-                case 'treeNap':
-                    drawTreeNapScene();
-                    break;
+        function getPotPalette(sprite) {
+            if (!potPalettes.has(sprite.id)) {
+                const palette = {};
+                Object.entries(sprite.palette).forEach(([k, color]) => {
+                    palette[k] = potColors[color.toLowerCase()] || color;
+                });
+                potPalettes.set(sprite.id, palette);
             }
+            return potPalettes.get(sprite.id);
         }
 
-        // Scene 1: Hay Bale Rest (animated!)
-        let hayFrame = 0;
-        let hayAnimInterval = null;
-        
-        function drawHayBaleScene() {
-            if (!hayAnimInterval) {
-                hayAnimInterval = setInterval(() => {
-                    hayFrame = (hayFrame + 1) % 40;
-                    if (isPreviewingStage) {
-                        drawHayBaleSceneFrame();
-                    }
-                }, 150);
-            }
-            drawHayBaleSceneFrame();
-        }
-        
-        function stopHayAnimation() {
-            if (hayAnimInterval) {
-                clearInterval(hayAnimInterval);
-                hayAnimInterval = null;
-            }
-        }
-        
-        function drawHayBaleSceneFrame() {
-            ctx.clearRect(0, 0, 140, 140);
-            
-            // Barn wall background - warm wood tones
-            for (let y = 5; y <= 29; y++) {
-                for (let x = 5; x <= 27; x++) {
-                    // Horizontal wood planks
-                    const plankColor = y % 3 === 0 ? '#5a3a2a' : '#7b5a4a';
-                    drawPixel(x, y, plankColor);
-                }
-            }
-            
-            // Vertical wood beam on left
-            for (let y = 5; y <= 29; y++) {
-                drawPixel(5, y, '#4a2a1a');
-                drawPixel(6, y, '#5a3a2a');
-            }
-            
-            // Window showing blue sky outside
-            // Sky background through window
-            for (let y = 8; y <= 14; y++) {
-                for (let x = 21; x <= 26; x++) {
-                    // Sky gradient - lighter at top
-                    const skyColor = y <= 10 ? '#7ab4d4' : '#5a9ac4';
-                    drawPixel(x, y, skyColor);
+        // Wilted and dead plants keep their art but lose their color: hues drift toward straw
+        // and brown and fade, unless the sprite brings its own health palette. The pot stays as is.
+        const HEALTH_FADES = {
+            wilted: { hue: 45, pull: 0.5, saturation: 0.6, lightness: 0.9 },
+            dead: { hue: 28, pull: 0.85, saturation: 0.3, lightness: 0.65 }
+        };
+        const plantPalettes = new Map();
+
+        function toRgb(hex) {
+            const value = hex.length === 4 ? hex.slice(1).split('').map(c => c + c).join('') : hex.slice(1);
+            return [0, 2, 4].map(i => parseInt(value.slice(i, i + 2), 16));
+        }
+
+        function toHsl(hex) {
+            const [r, g, b] = toRgb(hex).map(c => c / 255);
+            const max = Math.max(r, g, b);
+            const min = Math.min(r, g, b);
+            let h = 0;
+            let s = 0;
+            const l = (max + min) / 2;
+            if (max !== min) {
+                const d = max - min;
+                s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+                h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+                h *= 60;
+            }
+            return [h, s, l];
+        }
+
+        function fromHsl(h, s, l) {
+            const k = n => (n + h / 30) % 12;
+            const a = s * Math.min(l, 1 - l);
+            const channel = n => Math.round((l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1))) * 255);
+            return '#' + [0, 8, 4].map(n => channel(n).toString(16).padStart(2, '0')).join('');
+        }
+
+        // Blends a color part of the way toward another, for tinting whole scenes
+        function mixColor(hex, target, amount) {
+            const to = toRgb(target);
+            return '#' + toRgb(hex).map((c, i) => Math.round(c + (to[i] - c) * amount).toString(16).padStart(2, '0')).join('');
+        }
+
+        function fadeColor(hex, fade) {
+            let [h, s, l] = toHsl(hex);
+            // Turn the shorter way round the color wheel
+            const turn = ((fade.hue - h + 540) % 360) - 180;
+            h = (h + turn * fade.pull + 360) % 360;
+            return fromHsl(h, s * fade.saturation, l * fade.lightness);
+        }
+
+        // Takes the target's hue and saturation, keeping each shade as much lighter or darker
+        // than the sprite's main fruit color as it was
+        function tintColor(hex, target, mainLightness) {
+            const [h, s, targetLightness] = toHsl(target);
+            const l = toHsl(hex)[2] + targetLightness - mainLightness;
+            return fromHsl(h, s, Math.min(Math.max(l, 0), 1));
+        }
+
+        // The plant layer's colors: fruit tinted by its genes, then faded if the plant wilted or died
+        function getPlantPalette(sprite, health, genes) {
+            const key = sprite.id + '/' + health + '/' + genesKey(genes);
+            if (!plantPalettes.has(key)) {
+                const palette = { ...sprite.palette };
+                const fruit = (sprite.genes && sprite.genes.fruit) || [];
+                const target = genes && fruitColors[genes.fruit];
+                if (target && fruit.length) {
+                    const mainLightness = toHsl(sprite.palette[fruit[0]])[2];
+                    fruit.forEach(k => { palette[k] = tintColor(sprite.palette[k], target, mainLightness); });
                 }
-            }
-            // Sun in window
-            drawPixel(25, 9, '#f4e04d');
-            drawPixel(26, 9, '#f4d03f');
-            drawPixel(25, 10, '#f4d03f');
-            
-            // Window frame (dark wood, uniform)
-            const frameColor = '#3a2a1a';
-            // Top and bottom
-            for (let x = 20; x <= 27; x++) {
-                drawPixel(x, 7, frameColor);
-                drawPixel(x, 15, frameColor);
-            }
-            // Left and right
-            for (let y = 7; y <= 15; y++) {
-                drawPixel(20, y, frameColor);
-                drawPixel(27, y, frameColor);
-            }
-            // Window cross (centered)
-            for (let y = 8; y <= 14; y++) {
-                drawPixel(23, y, frameColor);
-                drawPixel(24, y, frameColor);
-            }
-            for (let x = 21; x <= 26; x++) {
-                drawPixel(x, 11, frameColor);
-            }
-            
-            // Warm sunlight spilling onto floor
-            const rayFlicker = hayFrame % 30 < 15 ? 1 : 0;
-            drawPixel(19, 24, '#f4e08f');
-            drawPixel(20, 25, '#f4e08f');
-            drawPixel(18, 25 + rayFlicker, '#e4d07f');
-            
-            // Barn floor - darker wood
-            for (let y = 27; y <= 29; y++) {
-                for (let x = 5; x <= 27; x++) {
-                    drawPixel(x, y, y === 27 ? '#4a3a2a' : '#3a2a1a');
+                if (HEALTH_FADES[health]) {
+                    const overrides = (sprite.health && sprite.health[health]) || {};
+                    Object.keys(palette).forEach(k => {
+                        palette[k] = overrides[k] || fadeColor(palette[k], HEALTH_FADES[health]);
+                    });
                 }
-            }
-            
-            // Big golden hay bale with texture
-            for (let y = 20; y <= 26; y++) {
-                for (let x = 10; x <= 22; x++) {
-                    const isTop = y === 20;
-                    const isLeft = x === 10;
-                    const isRight = x === 22;
-                    let color = '#d4a84a'; // Golden hay
-                    if (isTop) color = '#e4c86a'; // Lighter top
-                    else if (isLeft) color = '#b4884a'; // Shadow left
-                    else if (isRight) color = '#c49840';
-                    drawPixel(x, y, color);
+                plantPalettes.set(key, palette);
+            }
+            return plantPalettes.get(key);
+        }
+
+        // ========== GENETICS ==========
+        // Bred plants tint the sprite's fruit colors, reshape its leaves and grow taller or shorter.
+        // Sprites list which palette keys are fruit and leaves in their genes block.
+        let fruitColors = {};
+        const geneRows = new Map();
+
+        function genesKey(genes) {
+            return genes ? genes.fruit + '/' + genes.leaf + '/' + genes.height : 'wild';
+        }
+
+        // Broad leaves grow a pixel out from each side of every run of leaf pixels, slender ones
+        // lose their outer pixels. Pixels with leaf above or below are stems and keep their width.
+        function reshapeLeaves(rows, leaf, shape) {
+            const source = rows.map(row => row.padEnd(35, '.'));
+            return source.map((row, y) => {
+                const cells = row.split('');
+                const isLeaf = (x, dy = 0) => leaf.has((source[y + dy] || '')[x]);
+                const isStem = x => isLeaf(x, -1) || isLeaf(x, 1);
+                for (let x = 0; x < row.length; x++) {
+                    if (!isLeaf(x) || isLeaf(x - 1)) continue;
+                    let end = x;
+                    while (isLeaf(end + 1)) end++;
+                    if (shape === 'broad' && !(end === x && isStem(x))) {
+                        if (row[x - 1] === '.') cells[x - 1] = row[x];
+                        if (row[end + 1] === '.') cells[end + 1] = row[end];
+                    } else if (shape === 'slender' && end > x) {
+                        if ((row[end + 1] === '.' || end + 1 === row.length) && !isStem(end)) cells[end] = '.';
+                        if (end - x >= 2 && (row[x - 1] === '.' || x === 0) && !isStem(x)) cells[x] = '.';
+                    }
+                    x = end;
                 }
-            }
-            // Hay texture strands
-            drawPixel(12, 22, '#b4884a'); drawPixel(15, 21, '#c49840');
-            drawPixel(18, 23, '#b4884a'); drawPixel(14, 24, '#c49840');
-            drawPixel(20, 22, '#b4884a'); drawPixel(17, 25, '#c49840');
-            drawPixel(11, 23, '#e4c86a'); drawPixel(19, 24, '#e4c86a');
-            
-            // Loose straw scattered on floor
-            drawPixel(8, 26, '#d4a84a'); drawPixel(9, 27, '#c49840');
-            drawPixel(24, 26, '#d4a84a'); drawPixel(25, 27, '#b4884a');
-            drawPixel(7, 28, '#c49840'); drawPixel(23, 28, '#d4a84a');
-            
-            // Pitchfork leaning on wall
-            drawPixel(7, 16, '#5a4a3a'); drawPixel(7, 17, '#5a4a3a');
-            drawPixel(7, 18, '#5a4a3a'); drawPixel(7, 19, '#5a4a3a');
-            drawPixel(7, 20, '#5a4a3a'); drawPixel(7, 21, '#5a4a3a');
-            drawPixel(6, 15, '#8a8a8a'); drawPixel(7, 15, '#8a8a8a'); drawPixel(8, 15, '#8a8a8a');
-            drawPixel(6, 14, '#aaaaaa'); drawPixel(8, 14, '#aaaaaa');
-            
-            // Farmer reclining on hay bale
-            // Legs stretched
-            drawPixel(14, 23, farmerColors.overalls);
-            drawPixel(15, 23, farmerColors.overalls);
-            drawPixel(16, 24, farmerColors.overalls);
-            drawPixel(17, 24, farmerColors.overallsDark);
-            // Boots
-            drawPixel(17, 25, '#3a2a1a');
-            drawPixel(18, 25, '#2a1a0a');
-            // Body relaxed
-            drawPixel(12, 21, farmerColors.overalls);
-            drawPixel(13, 21, farmerColors.overallsDark);
-            drawPixel(12, 20, farmerColors.shirt);
-            drawPixel(13, 20, farmerColors.shirtDark);
-            // Arms behind head
-            drawPixel(11, 20, farmerColors.skin);
-            drawPixel(14, 19, farmerColors.skin);
-            // Head on pillow of hay
-            drawPixel(11, 18, farmerColors.skin);
-            drawPixel(12, 18, farmerColors.skinShadow);
-            drawPixel(11, 19, farmerColors.skin);
-            drawPixel(12, 19, farmerColors.skin);
-            // Hat covering face (napping!)
-            drawPixel(10, 17, farmerColors.hat);
-            drawPixel(11, 17, farmerColors.hat);
-            drawPixel(12, 17, farmerColors.hat);
-            drawPixel(13, 17, farmerColors.hat);
-            drawPixel(11, 16, farmerColors.hatBand);
-            drawPixel(12, 16, farmerColors.hat);
-            
-            // Animated breathing (chest rises)
-            const breathe = hayFrame % 30 < 15 ? 0 : 1;
-            if (breathe) {
-                drawPixel(12, 19, farmerColors.shirt);
-            }
-            
-            // Animated straw in mouth (sticking out from under hat)
-            const strawBob = hayFrame % 20 < 10 ? 0 : 1;
-            drawPixel(13, 18, farmerColors.hay);
-            drawPixel(14, 18 - strawBob, farmerColors.hay);
-            drawPixel(15, 17 - strawBob, '#c49840');
-            
-            // Floating dust motes in sunlight
-            const dustY1 = 16 + (hayFrame % 8);
-            const dustY2 = 14 + ((hayFrame + 4) % 10);
-            if (hayFrame % 3 === 0 && dustY1 < 25) {
-                drawPixel(18, dustY1, '#f4e08f');
-            }
-            if (hayFrame % 4 === 1 && dustY2 < 24) {
-                drawPixel(10, dustY2, '#c4b494');
-            }
+                return cells.join('');
+            });
         }
 
-        // Scene 2: Lemonade Stand (animated!)
-        let lemonadeFrame = 0;
-        let lemonadeAnimInterval = null;
-        
-        function drawLemonadeScene() {
-            if (!lemonadeAnimInterval) {
-                lemonadeAnimInterval = setInterval(() => {
-                    lemonadeFrame = (lemonadeFrame + 1) % 60;
-                    if (isPreviewingStage) {
-                        drawLemonadeSceneFrame();
-                    }
-                }, 120);
-            }
-            drawLemonadeSceneFrame();
-        }
-        
-        function stopLemonadeAnimation() {
-            if (lemonadeAnimInterval) {
-                clearInterval(lemonadeAnimInterval);
-                lemonadeAnimInterval = null;
-            }
-        }
-        
-        function drawLemonadeSceneFrame() {
-            ctx.clearRect(0, 0, 140, 140);
-            
-            // Full background - sky + grass
-            for (let y = 5; y <= 29; y++) {
-                for (let x = 5; x <= 27; x++) {
-                    if (y <= 18) {
-                        // Sky
-                        drawPixel(x, y, '#7ab4d4');
-                    } else {
-                        // Grass
-                        const grassColor = y < 24 ? colors.leafLight : y < 27 ? colors.leaf : colors.leafDark;
-                        drawPixel(x, y, grassColor);
-                    }
-                }
-            }
-            
-            // Sun
-            drawPixel(6, 7, '#f4e04d');
-            drawPixel(7, 7, '#f4e04d');
-            drawPixel(6, 8, '#f4e04d');
-            drawPixel(7, 8, '#f4d03f');
-            
-            // Lemonade stand (wooden booth)
-            // Stand counter
-            for (let x = 12; x <= 24; x++) {
-                drawPixel(x, 21, farmerColors.wood);
-                drawPixel(x, 22, farmerColors.woodDark);
-            }
-            // Stand legs
-            for (let y = 23; y <= 27; y++) {
-                drawPixel(12, y, farmerColors.woodDark);
-                drawPixel(24, y, farmerColors.woodDark);
-            }
-            // Stand back wall
-            for (let y = 14; y <= 20; y++) {
-                for (let x = 13; x <= 23; x++) {
-                    drawPixel(x, y, '#f4e890');
-                }
-            }
-            // Stand roof
-            for (let x = 11; x <= 25; x++) {
-                drawPixel(x, 12, '#d44a4a');
-                drawPixel(x, 13, '#b43a3a');
-            }
-            
-            // "LEMONADE" sign (simplified as lemons decoration)
-            drawPixel(15, 15, '#f4e04d');
-            drawPixel(16, 15, '#f4e04d');
-            drawPixel(18, 15, '#f4e04d');
-            drawPixel(19, 15, '#f4e04d');
-            drawPixel(21, 15, '#f4e04d');
-            
-            // Big pitcher of lemonade on counter
-            drawPixel(17, 18, farmerColors.glass);
-            drawPixel(18, 18, '#f4e04d');
-            drawPixel(19, 18, farmerColors.glass);
-            drawPixel(17, 19, farmerColors.glass);
-            drawPixel(18, 19, '#f4e04d');
-            drawPixel(19, 19, '#e4d03d');
-            drawPixel(17, 20, farmerColors.glass);
-            drawPixel(18, 20, '#e4d03d');
-            drawPixel(19, 20, farmerColors.glass);
-            drawPixel(20, 19, farmerColors.glass); // handle
-            
-            // Cups on counter
-            drawPixel(14, 20, farmerColors.glass);
-            drawPixel(15, 20, '#f4e04d');
-            drawPixel(22, 20, farmerColors.glass);
-            drawPixel(23, 20, '#f4e04d');
-            
-            // Lemons on counter
-            drawPixel(14, 21, '#f4e04d');
-            drawPixel(15, 21, '#e4c020');
-            
-            // Farmer standing next to stand, holding cup
-            // Legs
-            drawPixel(8, 27, farmerColors.overalls);
-            drawPixel(9, 27, farmerColors.overalls);
-            drawPixel(8, 26, farmerColors.overalls);
-            drawPixel(9, 26, farmerColors.overallsDark);
-            // Body
-            drawPixel(8, 24, farmerColors.overalls);
-            drawPixel(9, 24, farmerColors.overallsDark);
-            drawPixel(8, 23, farmerColors.shirt);
-            drawPixel(9, 23, farmerColors.shirtDark);
-            // Head
-            drawPixel(8, 21, farmerColors.skin);
-            drawPixel(9, 21, farmerColors.skinShadow);
-            drawPixel(8, 22, farmerColors.skin);
-            drawPixel(9, 22, farmerColors.skin);
-            // Hat
-            drawPixel(7, 20, farmerColors.hat);
-            drawPixel(8, 20, farmerColors.hat);
-            drawPixel(9, 20, farmerColors.hat);
-            drawPixel(10, 20, farmerColors.hat);
-            drawPixel(8, 19, farmerColors.hat);
-            drawPixel(9, 19, farmerColors.hatBand);
-            
-            // Arm holding cup (animated sipping)
-            const sipPhase = lemonadeFrame % 40;
-            const isSipping = sipPhase > 20 && sipPhase < 35;
-            
-            if (isSipping) {
-                // Arm up, drinking
-                drawPixel(10, 22, farmerColors.skin);
-                drawPixel(10, 21, farmerColors.skin);
-                // Cup at mouth
-                drawPixel(10, 20, farmerColors.glass);
-                drawPixel(11, 20, '#f4e04d');
-            } else {
-                // Arm relaxed, cup lowered
-                drawPixel(10, 23, farmerColors.skin);
-                drawPixel(10, 24, farmerColors.skin);
-                // Cup in hand
-                drawPixel(10, 25, farmerColors.glass);
-                drawPixel(11, 25, '#f4e04d');
-                drawPixel(11, 24, '#f4e04d');
-            }
-            
-            // Refreshed sparkle when drinking
-            if (isSipping && lemonadeFrame % 4 < 2) {
-                drawPixel(6, 19, '#ffffff');
-            }
+        // Stretched up from the lowest row so the plant stays in its pot, never past the top of the canvas
+        function stretchRows(rows, height) {
+            const filled = rows.map(row => /[^.]/.test(row));
+            const top = filled.indexOf(true);
+            const bottom = filled.lastIndexOf(true);
+            if (top < 0 || bottom === top) return rows;
+            const scale = Math.min(height, bottom / (bottom - top));
+            return rows.map((row, y) => {
+                if (y > bottom) return row;
+                const source = bottom - Math.round((bottom - y) / scale);
+                return source >= 0 ? rows[source] : '';
+            });
         }
 
-        // Scene 3: Fishing (animated!)
-        let fishingFrame = 0;
-        let fishingAnimInterval = null;
-        
-        function drawFishingScene() {
-            // Start animation if not running
-            if (!fishingAnimInterval) {
-                fishingAnimInterval = setInterval(() => {
-                    fishingFrame = (fishingFrame + 1) % 60;
-                    if (isPreviewingStage) {
-                        drawFishingSceneFrame();
-                    }
-                }, 100);
+        function getStageRows(sprite, stage, genes) {
+            const rows = sprite.stages[stage] || [];
+            if (!genes) return rows;
+            const key = sprite.id + '/' + stage + '/' + genesKey(genes);
+            if (!geneRows.has(key)) {
+                const leaf = new Set((sprite.genes && sprite.genes.leaf) || []);
+                const shaped = genes.leaf === 'classic' || !leaf.size ? rows : reshapeLeaves(rows, leaf, genes.leaf);
+                geneRows.set(key, genes.height === 1 ? shaped : stretchRows(shaped, genes.height));
             }
-            drawFishingSceneFrame();
+            return geneRows.get(key);
         }
-        
-        function stopFishingAnimation() {
-            if (fishingAnimInterval) {
-                clearInterval(fishingAnimInterval);
-                fishingAnimInterval = null;
-            }
+
+        // Skipped breaks dry the soil and slow growth; a full break waters it again
+        function updateSoil(soil) {
+            const drops = '💧'.repeat(soil.moisture) + '·'.repeat(soil.max - soil.moisture);
+            soilIndicator.textContent = drops + ' ' + soil.name + ' soil' + (soil.growth < 1 ? ' · ' + Math.round(soil.growth * 100) + '% growth' : '');
+            soilIndicator.classList.toggle('dry', soil.growth < 1);
+            soilIndicator.title = soil.growth < 1
+                ? 'Skipped breaks dried the soil, so plants grow slower. Take a full break to water it.'
+                : 'Well watered. Skipping a break will dry the soil.';
         }
-        
-        function drawFishingSceneFrame() {
+
+        // Break scenes loop through their frames until another picture is drawn
+        let sceneAnimation = null;
+        let playingScene = null;
+        let sceneStep = 0;
+
+        function drawSceneFrame(sprite) {
+            const sequence = sprite.sequence || sprite.frames.map((_, i) => i);
             ctx.clearRect(0, 0, 140, 140);
-            
-            // Full background - sky + water
-            for (let y = 5; y <= 29; y++) {
-                for (let x = 5; x <= 27; x++) {
-                    if (y <= 18) {
-                        // Sky gradient
-                        const skyColor = y < 12 ? '#5a7a9a' : '#4a6a8a';
-                        drawPixel(x, y, skyColor);
-                    } else if (y <= 20) {
-                        // Shore/transition
-                        drawPixel(x, y, '#3a4a5a');
-                    } else {
-                        // Water
-                        let waterColor = farmerColors.waterDark;
-                        if (y === 21) waterColor = '#4a7a9a';
-                        else if (y <= 23) waterColor = farmerColors.water;
-                        drawPixel(x, y, waterColor);
-                    }
-                }
-            }
-            
-            // Distant trees/bushes
-            drawPixel(6, 16, colors.leafDark);
-            drawPixel(7, 15, colors.leaf);
-            drawPixel(7, 16, colors.leafDark);
-            drawPixel(8, 16, colors.leafDark);
-            drawPixel(24, 15, colors.leaf);
-            drawPixel(25, 15, colors.leafDark);
-            drawPixel(25, 16, colors.leafDark);
-            drawPixel(26, 16, colors.leaf);
-            
-            // Animated water sparkles
-            const sparkleOffset = fishingFrame % 20;
-            if (sparkleOffset < 10) {
-                drawPixel(8 + (fishingFrame % 5), 23, '#7ec8e3');
-                drawPixel(22 - (fishingFrame % 4), 25, '#9ed8f3');
-            }
-            if (sparkleOffset > 5 && sparkleOffset < 15) {
-                drawPixel(12, 24, '#7ec8e3');
-            }
-            
-            // Animated ripples around bobber
-            const ripplePhase = fishingFrame % 30;
-            if (ripplePhase < 10) {
-                drawPixel(21, 24, '#7ec8e3');
-                drawPixel(23, 24, '#7ec8e3');
-            } else if (ripplePhase < 20) {
-                drawPixel(20, 24, '#6ab8d3');
-                drawPixel(24, 24, '#6ab8d3');
-            }
-            
-            // Dock with wood grain
-            for (let x = 10; x <= 19; x++) {
-                drawPixel(x, 20, farmerColors.woodDark);
-                drawPixel(x, 19, farmerColors.wood);
-                if (x % 3 === 0) {
-                    drawPixel(x, 19, farmerColors.woodDark);
-                }
-            }
-            // Dock posts
-            drawPixel(11, 21, farmerColors.woodDark);
-            drawPixel(11, 22, farmerColors.woodDark);
-            drawPixel(18, 21, farmerColors.woodDark);
-            drawPixel(18, 22, farmerColors.woodDark);
-            
-            // Farmer sitting on dock
-            // Legs dangling
-            drawPixel(14, 20, farmerColors.overalls);
-            drawPixel(15, 20, farmerColors.overallsDark);
-            drawPixel(14, 21, farmerColors.overalls);
-            drawPixel(15, 21, farmerColors.overalls);
-            // Body
-            drawPixel(14, 18, farmerColors.overalls);
-            drawPixel(15, 18, farmerColors.overallsDark);
-            drawPixel(14, 17, farmerColors.shirt);
-            drawPixel(15, 17, farmerColors.shirtDark);
-            // Arms
-            drawPixel(13, 17, farmerColors.skin);
-            drawPixel(16, 17, farmerColors.skin);
-            // Head
-            drawPixel(14, 15, farmerColors.skin);
-            drawPixel(15, 15, farmerColors.skinShadow);
-            drawPixel(14, 16, farmerColors.skin);
-            drawPixel(15, 16, farmerColors.skin);
-            // Hat
-            drawPixel(13, 14, farmerColors.hat);
-            drawPixel(14, 14, farmerColors.hat);
-            drawPixel(15, 14, farmerColors.hat);
-            drawPixel(16, 14, farmerColors.hat);
-            drawPixel(14, 13, farmerColors.hatBand);
-            drawPixel(15, 13, farmerColors.hat);
-            
-            // Fishing rod
-            drawPixel(16, 16, farmerColors.wood);
-            drawPixel(17, 15, farmerColors.wood);
-            drawPixel(18, 14, farmerColors.wood);
-            drawPixel(19, 13, farmerColors.wood);
-            drawPixel(20, 12, farmerColors.woodDark);
-            
-            // Fishing line (slight sway animation)
-            const sway = Math.sin(fishingFrame * 0.2) > 0 ? 1 : 0;
-            drawPixel(21 + sway, 13, '#cccccc');
-            drawPixel(21, 14, '#cccccc');
-            drawPixel(21, 15, '#cccccc');
-            drawPixel(21, 16, '#cccccc');
-            drawPixel(21, 17, '#cccccc');
-            drawPixel(21, 18, '#cccccc');
-            drawPixel(21, 19, '#cccccc');
-            drawPixel(21, 20, '#cccccc');
-            drawPixel(21, 21, '#cccccc');
-            
-            // Bobber (animated bobbing)
-            const bobY = 22 + (fishingFrame % 20 < 10 ? 0 : 1);
-            drawPixel(21, bobY, '#ff4444');
-            drawPixel(22, bobY, '#ff6666');
-            drawPixel(21, bobY + 1, '#ffffff');
-            
-            // Occasional fish splash!
-            if (fishingFrame > 45 && fishingFrame < 55) {
-                drawPixel(9, 22, '#7ec8e3');
-                drawPixel(8, 23, '#9ed8f3');
-                drawPixel(10, 23, '#9ed8f3');
-                // Little fish
-                drawPixel(9, 23, '#f4a460');
-                drawPixel(8, 24, '#f4a460');
-            }
+            drawScene(sprite, sprite.frames[sequence[sceneStep % sequence.length]]);
         }
 
-        // Scene 4: Tree Nap (animated!)
-        let napFrame = 0;
-        let napAnimInterval = null;
-        
-        function drawTreeNapScene() {
-            if (!napAnimInterval) {
-                napAnimInterval = setInterval(() => {
-                    napFrame = (napFrame + 1) % 80;
-                    if (isPreviewingStage) {
-                        drawTreeNapSceneFrame();
-                    }
-                }, 100);
-            }
-            drawTreeNapSceneFrame();
-        }
-        
-        function stopNapAnimation() {
-            if (napAnimInterval) {
-                clearInterval(napAnimInterval);
-                napAnimInterval = null;
+        function drawFarmerBreak(scene) {
+            const sprite = sprites.scene[scene];
+            if (!sprite) return;
+            // Updates arrive every second during a break; keep the running animation going
+            if (playingScene !== scene) {
+                stopSceneAnimation();
+                playingScene = scene;
+                sceneStep = 0;
+                sceneAnimation = setInterval(() => {
+                    sceneStep++;
+                    drawSceneFrame(sprite);
+                }, sprite.frameMs);
             }
+            drawSceneFrame(sprite);
         }
-        
-        function drawTreeNapSceneFrame() {
-            ctx.clearRect(0, 0, 140, 140);
-            
-            // Sky - full background
-            for (let y = 5; y <= 29; y++) {
-                for (let x = 5; x <= 27; x++) {
-                    if (y <= 18) {
-                        // Sky
-                        const skyColor = y < 12 ? '#6a9aba' : '#5a8aaa';
-                        drawPixel(x, y, skyColor);
-                    } else {
-                        // Grass ground
-                        const grassColor = y < 24 ? colors.leafLight : y < 27 ? colors.leaf : colors.leafDark;
-                        drawPixel(x, y, grassColor);
-                    }
-                }
-            }
-            
-            // Fluffy cloud (rounded shape)
-            drawPixel(8, 8, '#e8e8e8');
-            drawPixel(9, 8, '#ffffff');
-            drawPixel(10, 8, '#ffffff');
-            drawPixel(11, 8, '#e8e8e8');
-            drawPixel(9, 7, '#ffffff');
-            drawPixel(10, 7, '#f0f0f0');
-            drawPixel(7, 9, '#e0e0e0');
-            drawPixel(8, 9, '#f0f0f0');
-            drawPixel(9, 9, '#ffffff');
-            drawPixel(10, 9, '#ffffff');
-            drawPixel(11, 9, '#f0f0f0');
-            drawPixel(12, 9, '#e0e0e0');
-            drawPixel(7, 8, '#d8d8d8');
-            drawPixel(12, 8, '#d8d8d8');
-            
-            // Grass tufts
-            for (let x = 5; x <= 27; x++) {
-                if (x % 4 === 0) {
-                    drawPixel(x, 18, colors.leaf);
-                }
-            }
-            
-            // Big tree trunk
-            for (let y = 16; y <= 29; y++) {
-                drawPixel(21, y, farmerColors.wood);
-                drawPixel(22, y, farmerColors.wood);
-                drawPixel(23, y, farmerColors.woodDark);
-            }
-            // Trunk texture
-            drawPixel(22, 20, farmerColors.woodDark);
-            drawPixel(21, 24, farmerColors.woodDark);
-            // Roots
-            drawPixel(20, 28, farmerColors.woodDark);
-            drawPixel(24, 28, farmerColors.wood);
-            
-            // Lush tree canopy
-            for (let y = 8; y <= 18; y++) {
-                for (let x = 15; x <= 28; x++) {
-                    const distFromCenter = Math.abs(x - 22) + Math.abs(y - 13);
-                    if (distFromCenter < 9) {
-                        const leafColor = (x + y) % 3 === 0 ? colors.leafDark : 
-                                         (x + y) % 3 === 1 ? colors.leaf : colors.leafLight;
-                        drawPixel(x, y, leafColor);
-                    }
-                }
-            }
-            
-            // Animated falling leaf
-            const leafX = 18 + (napFrame % 20) / 4;
-            const leafY = 10 + (napFrame % 40) / 2;
-            if (napFrame < 40) {
-                drawPixel(Math.floor(leafX), Math.floor(leafY), '#8ab050');
-            }
-            
-            // Farmer lying down in shade
-            // Blanket/ground sheet
-            for (let x = 7; x <= 17; x++) {
-                drawPixel(x, 27, '#8b7355');
-            }
-            // Body horizontal
-            drawPixel(9, 26, farmerColors.overalls);
-            drawPixel(10, 26, farmerColors.overalls);
-            drawPixel(11, 26, farmerColors.overallsDark);
-            drawPixel(12, 26, farmerColors.overalls);
-            drawPixel(13, 26, farmerColors.overalls);
-            // Chest
-            drawPixel(9, 25, farmerColors.shirt);
-            drawPixel(10, 25, farmerColors.shirtDark);
-            // Arms
-            drawPixel(11, 25, farmerColors.skin); // hand on chest
-            drawPixel(8, 25, farmerColors.skin); // arm out
-            // Legs
-            drawPixel(14, 26, farmerColors.overalls);
-            drawPixel(15, 27, farmerColors.overalls);
-            drawPixel(16, 27, farmerColors.overallsDark);
-            
-            // Head with hat over face
-            drawPixel(7, 25, farmerColors.skin);
-            drawPixel(7, 24, farmerColors.skin);
-            // Hat covering face
-            drawPixel(6, 24, farmerColors.hat);
-            drawPixel(7, 23, farmerColors.hat);
-            drawPixel(8, 23, farmerColors.hat);
-            drawPixel(6, 23, farmerColors.hatBand);
-            
-            // Animated breathing (chest moves)
-            const breathe = napFrame % 30 < 15;
-            if (breathe) {
-                drawPixel(10, 24, farmerColors.shirt);
-            }
-            
-            // Animated ZZZs floating up
-            const zOffset = (napFrame % 20) / 5;
-            const zOpacity = napFrame % 20;
-            if (zOpacity < 15) {
-                drawPixel(5, Math.floor(22 - zOffset), '#ffffff');
-            }
-            if (zOpacity > 5) {
-                drawPixel(4, Math.floor(20 - zOffset), '#cccccc');
-            }
-            if (zOpacity > 10) {
-                drawPixel(3, Math.floor(18 - zOffset), '#999999');
-            }
-            
-            // Fireflies in evening light (occasional)
-            if (napFrame > 60) {
-                const fireflyPhase = (napFrame - 60) % 10;
-                if (fireflyPhase < 5) {
-                    drawPixel(25, 20, '#f4f4a0');
-                    drawPixel(12, 15, '#f4f4a0');
-                }
+
+        function stopSceneAnimation() {
+            if (sceneAnimation) {
+                clearInterval(sceneAnimation);
+                sceneAnimation = null;
             }
+            playingScene = null;
         }
 
         // Event listeners
@@ -2029,23 +2473,672 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
             vscode.postMessage({ command: 'openSettings' });
         });
 
+        document.getElementById('fruitsDisplay').addEventListener('click', () => {
+            vscode.postMessage({ command: 'showStats' });
+        });
+
         document.getElementById('skipBreakBtn').addEventListener('click', () => {
             vscode.postMessage({ command: 'skipBreak' });
         });
 
+        projectFilter.addEventListener('change', () => {
+            vscode.postMessage({ command: 'setProjectFilter', project: projectFilter.value });
+        });
+
+        // Only worth showing once sessions come from more than one project
+        function updateProjectFilter(projects, selected) {
+            projectFilter.style.display = projects.length > 1 ? 'block' : 'none';
+            const options = [''].concat(projects);
+            if (projectFilter.options.length !== options.length ||
+                options.some((p, i) => projectFilter.options[i].value !== p)) {
+                projectFilter.innerHTML = '';
+                options.forEach(p => {
+                    const option = document.createElement('option');
+                    option.value = p;
+                    option.textContent = p || 'all projects';
+                    projectFilter.appendChild(option);
+                });
+            }
+            projectFilter.value = selected || '';
+        }
+
+        // Today's harvest per produce, e.g. 🍅 3 🌻 1
+        function updateProduce(produce) {
+            fruitsDisplay.innerHTML = '';
+            const shown = produce.length ? produce : [{ emoji: '🍅', count: 0, produce: 'tomato' }];
+            shown.forEach(p => {
+                const icon = document.createElement('span');
+                icon.className = 'fruit-icon';
+                icon.textContent = p.emoji;
+                icon.title = p.produce;
+                const count = document.createElement('span');
+                count.className = 'fruit-count';
+                count.textContent = p.count;
+                fruitsDisplay.appendChild(icon);
+                fruitsDisplay.appendChild(count);
+            });
+        }
+
+        // One pot per session of the daily goal, filled as the day's plants are harvested;
+        // larger goals are shown as a count instead
+        const MAX_GOAL_POTS = 12;
+
+        function updateGoal(goal) {
+            dailyGoal.style.display = goal ? 'flex' : 'none';
+            if (!goal || dailyGoal.dataset.goal === JSON.stringify(goal)) return;
+            dailyGoal.dataset.goal = JSON.stringify(goal);
+            dailyGoal.innerHTML = '';
+            if (goal.target <= MAX_GOAL_POTS) {
+                for (let i = 0; i < goal.target; i++) {
+                    const pot = document.createElement('span');
+                    pot.className = 'goal-pot' + (i < goal.today ? ' filled' : '');
+                    pot.textContent = '🪴';
+                    dailyGoal.appendChild(pot);
+                }
+                if (goal.today > goal.target) {
+                    dailyGoal.appendChild(document.createTextNode('+' + (goal.today - goal.target)));
+                }
+            } else {
+                dailyGoal.appendChild(document.createTextNode('🪴 ' + goal.today + '/' + goal.target));
+            }
+            if (goal.streak > 0) {
+                const streak = document.createElement('span');
+                streak.className = 'goal-streak';
+                streak.textContent = '🔥' + goal.streak;
+                dailyGoal.appendChild(streak);
+            }
+            dailyGoal.title = 'Daily goal: ' + Math.min(goal.today, goal.target) + ' of ' + goal.target + ' sessions' +
+                (goal.restDay ? ' (rest day, the streak is safe)' : '') +
+                '\\nStreak: ' + goal.streak + ' day' + (goal.streak === 1 ? '' : 's') + ' in a row';
+        }
+
+        // Seeds can be swapped until the timer starts
+        function updateSeedPicker(seeds, selected, visible) {
+            seedPicker.style.display = visible ? 'flex' : 'none';
+            // Rebuilt only when the seeds change, e.g. after a plant is designed
+            const key = JSON.stringify(seeds);
+            if (seedPicker.dataset.seeds !== key) {
+                seedPicker.dataset.seeds = key;
+                seedPicker.innerHTML = '';
+                seeds.forEach(seed => {
+                    const button = document.createElement('button');
+                    button.className = 'seed-btn' + (seed.bred ? ' bred' : '');
+                    button.dataset.seed = seed.id;
+                    button.textContent = seed.emoji;
+                    button.title = 'Plant ' + (seed.bred ? 'bred ' : '') + seed.name.toLowerCase();
+                    button.addEventListener('click', () => {
+                        vscode.postMessage({ command: 'chooseSeed', species: seed.species, seed: seed.bred ? seed.id : undefined });
+                    });
+                    seedPicker.appendChild(button);
+                });
+            }
+            Array.from(seedPicker.children).forEach(button => {
+                button.classList.toggle('selected', button.dataset.seed === selected);
+            });
+        }
+
+        const teamGarden = document.getElementById('teamGarden');
+        const teamTotal = document.getElementById('teamTotal');
+        const teamRow = document.getElementById('teamRow');
+
+        // A small potted plant per teammate, with one fruit for each harvest today (up to 6)
+        function drawTeammatePlant(canvas, fruits) {
+            const colors = { pot: '#8b4513', potRim: '#c4713b', stem: '#2d5a27', leaf: '#4a8c3f', fruit: '#e74c3c' };
+            const mini = canvas.getContext('2d');
+            const px = (x, y, color) => {
+                mini.fillStyle = color;
+                mini.fillRect(x * 3, y * 3, 3, 3);
+            };
+            mini.clearRect(0, 0, canvas.width, canvas.height);
+            for (let y = 11; y <= 14; y++) {
+                for (let x = 4 + (y - 11 > 1 ? 1 : 0); x <= 11 - (y - 11 > 1 ? 1 : 0); x++) {
+                    px(x, y, y === 11 ? colors.potRim : colors.pot);
+                }
+            }
+            for (let y = 4; y <= 10; y++) {
+                px(7, y, colors.stem);
+            }
+            [[5, 6], [6, 5], [8, 7], [9, 6], [5, 8], [6, 8], [9, 9], [8, 9]].forEach(([x, y]) => px(x, y, colors.leaf));
+            const spots = [[6, 3], [9, 4], [4, 5], [10, 7], [4, 9], [10, 10]];
+            spots.slice(0, Math.min(fruits, spots.length)).forEach(([x, y]) => px(x, y, colors.fruit));
+        }
+
+        // Updates arrive every second, so only rebuild the row when the team changes
+        let lastTeam = '';
+        function updateTeamGarden(team) {
+            teamGarden.style.display = team ? 'block' : 'none';
+            if (!team || JSON.stringify(team) === lastTeam) return;
+            lastTeam = JSON.stringify(team);
+            teamTotal.textContent = '👥 team today: ' + team.total + ' 🍅';
+            teamRow.innerHTML = '';
+            team.members.forEach(m => {
+                const item = document.createElement('div');
+                item.className = 'teammate' + (m.isYou ? ' you' : '');
+                item.title = m.member + ': ' + m.fruits + ' 🍅';
+                const canvas = document.createElement('canvas');
+                canvas.width = 48;
+                canvas.height = 48;
+                canvas.className = 'pixel-art';
+                drawTeammatePlant(canvas, m.fruits);
+                const name = document.createElement('span');
+                name.textContent = m.member;
+                item.appendChild(canvas);
+                item.appendChild(name);
+                teamRow.appendChild(item);
+            });
+        }
+
+        // ========== GARDEN PLOTS ==========
+        // Every harvested plant stays in its own plot, newest day first
+        const plotGarden = document.getElementById('plotGarden');
+        const plotTitle = document.getElementById('plotTitle');
+        const plotScroll = document.getElementById('plotScroll');
+        const plotInfo = document.getElementById('plotInfo');
+        const breedBar = document.getElementById('breedBar');
+        const breedInfo = document.getElementById('breedInfo');
+        const breedBtn = document.getElementById('breedBtn');
+        const PLOT_HINT = 'hover a plant to see when it grew, click two to cross-pollinate';
+        let gardenDays = [];
+        let seenPlots = null;
+        let crossPollinationPrice = 0;
+        let crossPicks = [];
+        const plotCanvases = new Map();
+
+        // A garden can hold thousands of plants, so each grown species is drawn once and copied
+        const plotArt = new Map();
+        function getPlotArt(species, stage, health, genes) {
+            const key = species + '/' + stage + '/' + health + '/' + genesKey(genes);
+            if (!plotArt.has(key)) {
+                const art = document.createElement('canvas');
+                art.width = 35;
+                art.height = 35;
+                const sprite = sprites.plant[species];
+                if (sprite) {
+                    const artCtx = art.getContext('2d');
+                    drawGrid(sprite.base, sprite.palette, artCtx, 1);
+                    drawGrid(getStageRows(sprite, stage, genes), getPlantPalette(sprite, health, genes), artCtx, 1);
+                }
+                plotArt.set(key, art);
+            }
+            return plotArt.get(key);
+        }
+
+        const HEALTH_NOTES = { wilted: '🥀 wilted', dead: '🪦 died' };
+
+        function describePlot(day, plot) {
+            const health = HEALTH_NOTES[plot.health]
+                ? ' · ' + HEALTH_NOTES[plot.health] + ', abandoned at ' + Math.round(plot.progress * 100) + '%'
+                : '';
+            const traits = plot.genes ? ' · 🧬 ' + plot.traits : '';
+            return plot.name + traits + health + ' · ' + day.label + ' ' + plot.grownAt + '\\n' +
+                plot.took + ' · ' + plot.project + (plot.branch ? ' (' + plot.branch + ')' : '');
+        }
+
+        function renderGarden() {
+            const plots = gardenDays.flatMap(day => day.plots);
+            const lost = plots.filter(plot => plot.health !== 'healthy').length;
+            plotGarden.style.display = plots.length > 0 ? 'block' : 'none';
+            plotTitle.textContent = '🌾 your garden: ' + plots.length + ' plant' + (plots.length === 1 ? '' : 's') +
+                (lost ? ' (' + lost + ' lost)' : '');
+            plotInfo.textContent = PLOT_HINT;
+            plotScroll.innerHTML = '';
+            plotCanvases.clear();
+            const firstRender = seenPlots === null;
+            const seen = new Set();
+            gardenDays.forEach(day => {
+                const separator = document.createElement('div');
+                separator.className = 'plot-day';
+                separator.textContent = day.label + ' · ' + day.plots.length;
+                plotScroll.appendChild(separator);
+                const row = document.createElement('div');
+                row.className = 'plot-row';
+                day.plots.forEach(plot => {
+                    seen.add(plot.id);
+                    const canvas = document.createElement('canvas');
+                    canvas.width = 35;
+                    canvas.height = 35;
+                    canvas.className = 'plot pixel-art' + (firstRender || seenPlots.has(plot.id) ? '' : ' fresh');
+                    canvas.getContext('2d').drawImage(getPlotArt(plot.species, plot.stage, plot.health, plot.genes), 0, 0);
+                    canvas.addEventListener('mouseenter', () => { plotInfo.textContent = describePlot(day, plot); });
+                    canvas.addEventListener('mouseleave', () => { plotInfo.textContent = PLOT_HINT; });
+                    if (plot.health === 'healthy') {
+                        canvas.addEventListener('click', () => pickForCrossing(plot));
+                    }
+                    plotCanvases.set(plot.id, canvas);
+                    row.appendChild(canvas);
+                });
+                plotScroll.appendChild(row);
+            });
+            seenPlots = seen;
+            crossPicks = crossPicks.filter(plot => plotCanvases.has(plot.id));
+            updateBreedBar();
+        }
+
+        // Two harvested plants of the same species can be cross-pollinated into a seed
+        function pickForCrossing(plot) {
+            crossPicks = crossPicks.some(p => p.id === plot.id)
+                ? crossPicks.filter(p => p.id !== plot.id)
+                : [...crossPicks, plot].slice(-2);
+            updateBreedBar();
+        }
+
+        function updateBreedBar() {
+            plotCanvases.forEach((canvas, id) => canvas.classList.toggle('picked', crossPicks.some(p => p.id === id)));
+            breedBar.style.display = crossPicks.length ? 'flex' : 'none';
+            const [a, b] = crossPicks;
+            const sameSpecies = b && a.species === b.species;
+            if (!b) {
+                breedInfo.textContent = a ? 'pick another ' + a.name.toLowerCase() : '';
+            } else if (!sameSpecies) {
+                breedInfo.textContent = 'pick two plants of the same species';
+            } else {
+                breedInfo.textContent = a.traits + ' × ' + b.traits;
+            }
+            breedBtn.disabled = !sameSpecies;
+            breedBtn.textContent = '🐝 cross-pollinate (' + crossPollinationPrice + ' fruit)';
+        }
+
+        breedBtn.addEventListener('click', () => {
+            vscode.postMessage({ command: 'crossPollinate', plots: crossPicks.map(plot => plot.id) });
+            crossPicks = [];
+            updateBreedBar();
+        });
+
+        // ========== QUEST BOARD ==========
+        // Today's and this week's quests with their progress and rewards
+        const questBoard = document.getElementById('questBoard');
+        const questList = document.getElementById('questList');
+
+        function renderQuests(message) {
+            questBoard.style.display = message.daily.length + message.weekly.length > 0 ? 'block' : 'none';
+            questList.innerHTML = '';
+            [['today', message.daily], ['this week', message.weekly]].forEach(([label, quests]) => {
+                if (!quests.length) return;
+                const separator = document.createElement('div');
+                separator.className = 'plot-day';
+                separator.textContent = label;
+                questList.appendChild(separator);
+                quests.forEach(quest => {
+                    const row = document.createElement('div');
+                    row.className = 'quest' + (quest.done ? ' done' : '') + (quest.failed ? ' failed' : '');
+                    const title = document.createElement('span');
+                    title.className = 'quest-title';
+                    title.textContent = quest.emoji + ' ' + quest.title;
+                    const bar = document.createElement('div');
+                    bar.className = 'quest-bar';
+                    bar.title = quest.failed ? 'failed' : quest.progress + ' / ' + quest.goal;
+                    const fill = document.createElement('div');
+                    fill.style.width = (quest.progress / quest.goal * 100) + '%';
+                    bar.appendChild(fill);
+                    const reward = document.createElement('span');
+                    reward.className = 'quest-reward';
+                    reward.textContent = quest.done ? '✅' : quest.failed ? '❌' : '🎁 ' + quest.reward;
+                    row.appendChild(title);
+                    row.appendChild(bar);
+                    row.appendChild(reward);
+                    questList.appendChild(row);
+                });
+            });
+        }
+
+        // ========== TROPHY SHELF ==========
+        // Earned badges in full color, the rest as silhouettes until they're unlocked
+        const trophyShelf = document.getElementById('trophyShelf');
+        const trophyTitle = document.getElementById('trophyTitle');
+        const trophyRow = document.getElementById('trophyRow');
+        const trophyInfo = document.getElementById('trophyInfo');
+        const TROPHY_HINT = 'hover a badge to see how it is earned';
+        const BADGE_CELL = 3;
+        const LOCKED_COLOR = 'rgba(128, 128, 128, 0.35)';
+        let achievements = [];
+        let seenBadges = null;
+
+        function renderTrophies() {
+            const earned = achievements.filter(a => a.earned);
+            trophyShelf.style.display = achievements.length > 0 ? 'block' : 'none';
+            trophyTitle.textContent = '🏆 trophies: ' + earned.length + ' of ' + achievements.length;
+            trophyInfo.textContent = TROPHY_HINT;
+            trophyRow.innerHTML = '';
+            const firstRender = seenBadges === null;
+            achievements.forEach(achievement => {
+                const canvas = document.createElement('canvas');
+                canvas.width = 36;
+                canvas.height = 36;
+                canvas.className = 'badge pixel-art' +
+                    (achievement.earned && !firstRender && !seenBadges.has(achievement.id) ? ' fresh' : '');
+                const sprite = sprites.badge[achievement.id];
+                if (sprite) {
+                    const palette = achievement.earned
+                        ? sprite.palette
+                        : Object.fromEntries(Object.keys(sprite.palette).map(key => [key, LOCKED_COLOR]));
+                    drawGrid(sprite.base, palette, canvas.getContext('2d'), BADGE_CELL);
+                }
+                canvas.addEventListener('mouseenter', () => {
+                    trophyInfo.textContent = achievement.name + ' · ' +
+                        (achievement.earned ? 'earned ' + achievement.earned : 'locked') + '\\n' + achievement.description;
+                });
+                canvas.addEventListener('mouseleave', () => { trophyInfo.textContent = TROPHY_HINT; });
+                trophyRow.appendChild(canvas);
+            });
+            seenBadges = new Set(earned.map(a => a.id));
+        }
+
+        // ========== SHOP ==========
+        // Harvested fruit buys seeds, pots, decorations and break scenes
+        const shop = document.getElementById('shop');
+        const shopBtn = document.getElementById('shopBtn');
+        const shopBalance = document.getElementById('shopBalance');
+        const shopItems = document.getElementById('shopItems');
+        const SHOP_SECTIONS = [['seed', '🌱 Seeds'], ['pot', '🪴 Pots'], ['decoration', '🍄 Decorations'], ['scene', '☕ Break scenes']];
+
+        function toggleShop(open) {
+            shop.style.display = open ? 'block' : 'none';
+            shopBtn.classList.toggle('open', open);
+        }
+        shopBtn.addEventListener('click', () => toggleShop(shop.style.display === 'none'));
+        document.getElementById('shopClose').addEventListener('click', () => toggleShop(false));
+
+        function shopButton(label, title, onClick, className) {
+            const button = document.createElement('button');
+            button.className = 'shop-action' + (className ? ' ' + className : '');
+            button.textContent = label;
+            button.title = title;
+            if (onClick) {
+                button.addEventListener('click', onClick);
+            } else {
+                button.disabled = true;
+            }
+            return button;
+        }
+
+        function shopRow(emoji, name, description, action) {
+            const row = document.createElement('div');
+            row.className = 'shop-item';
+            row.title = description;
+            const label = document.createElement('span');
+            label.className = 'shop-name';
+            label.textContent = emoji + ' ' + name;
+            row.append(label, action);
+            return row;
+        }
+
+        // What an owned item's button does: pots and decorations can be swapped, the rest just stay owned
+        function ownedAction(item, message) {
+            if (item.kind === 'pot') {
+                return message.pot === item.unlocks
+                    ? shopButton('in use', 'Your plant grows in this pot', null, 'in-use')
+                    : shopButton('use', 'Repot your plant', () => vscode.postMessage({ command: 'usePot', pot: item.unlocks }));
+            }
+            if (item.kind === 'decoration') {
+                const placed = message.decorations.includes(item.unlocks);
+                return shopButton(placed ? 'placed' : 'place', placed ? 'Click to put it away' : 'Put it in your garden',
+                    () => vscode.postMessage({ command: 'toggleDecoration', decoration: item.unlocks }), placed ? 'in-use' : '');
+            }
+            return shopButton('owned', item.kind === 'seed' ? 'Plant it with the seed buttons' : 'Comes up as a break scene', null);
+        }
+
+        function updateShop(message) {
+            shopBalance.textContent = '🛒 ' + message.balance + ' fruit to spend';
+            shopItems.innerHTML = '';
+            SHOP_SECTIONS.forEach(([kind, title]) => {
+                const section = document.createElement('div');
+                section.className = 'shop-section';
+                section.textContent = title;
+                shopItems.appendChild(section);
+                if (kind === 'pot') {
+                    const classic = !message.pot
+                        ? shopButton('in use', 'Your plant grows in this pot', null, 'in-use')
+                        : shopButton('use', 'Repot your plant', () => vscode.postMessage({ command: 'usePot' }));
+                    shopItems.appendChild(shopRow('🟤', 'Classic clay pot', 'The pot every garden starts with', classic));
+                }
+                message.items.filter(item => item.kind === kind).forEach(item => {
+                    const action = item.owned
+                        ? ownedAction(item, message)
+                        : shopButton('🍅 ' + item.price, item.blocker ? 'Not yet: ' + item.blocker : 'Buy for ' + item.price + ' fruit',
+                            item.blocker ? null : () => vscode.postMessage({ command: 'buy', item: item.id }));
+                    shopItems.appendChild(shopRow(item.emoji, item.name, item.description, action));
+                });
+            });
+        }
+
+        // ========== WEATHER ==========
+        // The sky behind the plant is animated with CSS alone, so redrawing the canvas for
+        // stage previews and break scenes never touches it
+        const weatherLayer = document.getElementById('weather');
+        const plantStage = document.getElementById('plantStage');
+
+        function updateWeather(weather) {
+            if (!weather) return;
+            const className = 'weather ' + weather.kind;
+            if (weatherLayer.className !== className) {
+                weatherLayer.className = className;
+            }
+            plantStage.title = weather.reason;
+        }
+
+        // ========== SKY ==========
+        // The sky behind the pot follows the local clock and the season, and break scenes are tinted to match
+        const skyLayer = document.getElementById('sky');
+        const seasonLayer = document.getElementById('season');
+        const SKY_TINTS = { dawn: ['#ffb482', 0.12], dusk: ['#c0602a', 0.18], night: ['#141b33', 0.35] };
+        const SEASON_TINTS = { autumn: ['#c4713b', 0.08], winter: ['#dfe8f0', 0.15] };
+        let currentSky = null;
+
+        function tintForSky(color) {
+            [currentSky && SEASON_TINTS[currentSky.season], currentSky && SKY_TINTS[currentSky.phase]].forEach(tint => {
+                if (tint) {
+                    color = mixColor(color, tint[0], tint[1]);
+                }
+            });
+            return color;
+        }
+
+        function updateSky(sky) {
+            if (!sky || (currentSky && sky.phase === currentSky.phase && sky.season === currentSky.season)) return;
+            currentSky = sky;
+            skyLayer.className = 'sky ' + sky.phase;
+            seasonLayer.className = 'season ' + sky.season;
+            // Running break scenes pick the new palettes up with their next frame
+            scenePalettes.clear();
+            drawWardrobePreview();
+        }
+
+        // ========== FARMER ==========
+        // The farmer in every break scene is dressed from the wardrobe. Each part's palette keys
+        // are tinted toward the chosen color, and accessories are painted over the finished frame.
+        // The whole scene then takes on the light of the time of day and the season.
+        const wardrobe = document.getElementById('wardrobe');
+        const wardrobeBtn = document.getElementById('wardrobeBtn');
+        const wardrobePreview = document.getElementById('wardrobePreview');
+        const wardrobeParts = document.getElementById('wardrobeParts');
+        const WARDROBE_PARTS = [['hat', 'Hat'], ['hair', 'Hair'], ['skin', 'Skin'], ['shirt', 'Shirt'], ['overalls', 'Overalls'], ['accessory', 'Extra']];
+        // The farmer part each accessory is worn on
+        const ACCESSORY_PARTS = { glasses: 'skin', flower: 'hat', scarf: 'shirt' };
+        // Shown where the hat was, in scenes that never draw the farmer's hair
+        const HATLESS_HAIR = '#6b4423';
+        let avatar = { hat: 'classic', hair: 'classic', skin: 'classic', shirt: 'classic', overalls: 'classic', accessory: 'none' };
+        let avatarOptions = { hat: {}, hair: {}, skin: {}, shirt: {}, overalls: {}, accessory: {} };
+        let previewScene = 0;
+        const scenePalettes = new Map();
+
+        function getScenePalette(sprite) {
+            if (!scenePalettes.has(sprite.id)) {
+                const palette = { ...sprite.palette };
+                const farmer = sprite.farmer || {};
+                const dress = (keys, target) => {
+                    if (!target || !keys || !keys.length) return;
+                    const mainLightness = toHsl(sprite.palette[keys[0]])[2];
+                    keys.forEach(k => { palette[k] = tintColor(sprite.palette[k], target, mainLightness); });
+                };
+                ['hair', 'skin', 'shirt', 'overalls'].forEach(part => dress(farmer[part], avatarOptions[part][avatar[part]]));
+                if (avatar.hat === 'none') {
+                    const hair = farmer.hair && farmer.hair.length ? palette[farmer.hair[0]] : avatarOptions.hair[avatar.hair] || HATLESS_HAIR;
+                    [...(farmer.hat || []), ...(farmer.hatBand || [])].forEach(k => { palette[k] = hair; });
+                } else {
+                    dress(farmer.hat, avatarOptions.hat[avatar.hat]);
+                }
+                Object.keys(palette).forEach(k => { palette[k] = tintForSky(palette[k]); });
+                scenePalettes.set(sprite.id, palette);
+            }
+            return scenePalettes.get(sprite.id);
+        }
+
+        // Accessories cover the top row of the part they're worn on once the frame is drawn over
+        // the base: glasses across the face, a scarf across the collar, a flower on the hat's first pixel
+        function drawAccessory(sprite, frame, target, cell) {
+            const color = avatarOptions.accessory[avatar.accessory];
+            const keys = sprite.farmer && sprite.farmer[ACCESSORY_PARTS[avatar.accessory]];
+            if (!color || !keys) return;
+            const tinted = tintForSky(color);
+            for (let y = 0; y < sprite.base.length; y++) {
+                const xs = [];
+                for (let x = 0; x < sprite.base[y].length; x++) {
+                    const key = frame[y] && frame[y][x] && frame[y][x] !== '.' ? frame[y][x] : sprite.base[y][x];
+                    if (keys.includes(key)) xs.push(x);
+                }
+                if (xs.length) {
+                    target.fillStyle = tinted;
+                    (avatar.accessory === 'flower' ? xs.slice(0, 1) : xs).forEach(x => target.fillRect(x * cell, y * cell, cell, cell));
+                    return;
+                }
+            }
+        }
+
+        function drawScene(sprite, frame, target = ctx, cell = CELL) {
+            const palette = getScenePalette(sprite);
+            drawGrid(sprite.base, palette, target, cell);
+            drawGrid(frame, palette, target, cell);
+            drawAccessory(sprite, frame, target, cell);
+        }
+
+        function toggleWardrobe(open) {
+            wardrobe.style.display = open ? 'block' : 'none';
+            wardrobeBtn.classList.toggle('open', open);
+            drawWardrobePreview();
+        }
+        wardrobeBtn.addEventListener('click', () => toggleWardrobe(wardrobe.style.display === 'none'));
+        document.getElementById('wardrobeClose').addEventListener('click', () => toggleWardrobe(false));
+        // Clicking the preview tries the farmer on in the next unlocked scene
+        wardrobePreview.addEventListener('click', () => {
+            previewScene++;
+            drawWardrobePreview();
+        });
+
+        function drawWardrobePreview() {
+            if (wardrobe.style.display === 'none') return;
+            const sprite = sprites.scene[breakSceneNames[previewScene % breakSceneNames.length]];
+            const preview = wardrobePreview.getContext('2d');
+            preview.clearRect(0, 0, 105, 105);
+            if (sprite) {
+                drawScene(sprite, sprite.frames[0], preview, 3);
+            }
+        }
+
+        // Colors are swatches; choices without one (classic, no hat, no accessory) are named buttons
+        function updateWardrobe() {
+            wardrobeParts.innerHTML = '';
+            WARDROBE_PARTS.forEach(([part, label]) => {
+                const row = document.createElement('div');
+                row.className = 'shop-item wardrobe-part';
+                const name = document.createElement('span');
+                name.className = 'wardrobe-label';
+                name.textContent = label;
+                row.appendChild(name);
+                Object.entries(avatarOptions[part]).forEach(([choice, color]) => {
+                    const worn = avatar[part] === choice;
+                    const pick = () => vscode.postMessage({ command: 'dressFarmer', part, choice });
+                    let button;
+                    if (color) {
+                        button = document.createElement('button');
+                        button.className = 'swatch' + (worn ? ' in-use' : '');
+                        button.style.background = color;
+                        button.title = choice;
+                        button.addEventListener('click', pick);
+                    } else {
+                        button = shopButton(choice, choice === 'classic' ? 'As drawn in each scene' : choice, pick, worn ? 'in-use' : '');
+                    }
+                    row.appendChild(button);
+                });
+                wardrobeParts.appendChild(row);
+            });
+            drawWardrobePreview();
+        }
+
         const breakControls = document.getElementById('breakControls');
         const controlsDiv = document.querySelector('.controls');
 
         // Handle messages from extension
         window.addEventListener('message', event => {
             const message = event.data;
+
+            if (message.type === 'sprites') {
+                // Animations hold on to the sprite they started with, so restart them
+                sprites = message.sprites;
+                stopSceneAnimation();
+                fruitColors = message.fruitColors;
+                plantPalettes.clear();
+                geneRows.clear();
+                potPalettes.clear();
+                plotArt.clear();
+                scenePalettes.clear();
+                drawWardrobePreview();
+                if (seenPlots !== null) {
+                    renderGarden();
+                }
+                if (seenBadges !== null) {
+                    renderTrophies();
+                }
+                if (!isPreviewingStage && !showingBreak) {
+                    drawPlant(currentSpecies, currentActualStage, currentHealth, currentGenes);
+                }
+            }
             
+            if (message.type === 'avatar') {
+                avatar = message.avatar;
+                avatarOptions = message.options;
+                scenePalettes.clear();
+                updateWardrobe();
+            }
+
+            if (message.type === 'shop') {
+                updateShop(message);
+                potColors = message.potColors;
+                placedDecorations = message.decorations;
+                potPalettes.clear();
+                if (!isPreviewingStage && !showingBreak) {
+                    drawPlant(currentSpecies, currentActualStage, currentHealth, currentGenes);
+                }
+            }
+
+            if (message.type === 'quests') {
+                renderQuests(message);
+            }
+
+            if (message.type === 'achievements') {
+                achievements = message.achievements;
+                renderTrophies();
+            }
+
+            if (message.type === 'garden') {
+                gardenDays = message.days;
+                crossPollinationPrice = message.crossPollinationPrice;
+                renderGarden();
+            }
+
             if (message.type === 'update') {
                 // Update fruits (always)
-                fruitCount.textContent = message.fruitsCollected;
-
+                updateProduce(message.produce);
+                updateGoal(message.goal);
+                updateWeather(message.weather);
+                updateSky(message.sky);
+                updateProjectFilter(message.projects, message.projectFilter);
+                updateTeamGarden(message.team);
+                updateSoil(message.soil);
+
+                showingBreak = message.isOnBreak;
                 if (message.isOnBreak) {
                     // === BREAK MODE ===
+                    seedPicker.style.display = 'none';
                     drawFarmerBreak(message.breakScene);
                     stageLabel.textContent = '☕ break time';
                     timerDisplay.textContent = message.breakTimeRemaining;
@@ -2064,13 +3157,23 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
                     
                     // Store actual stage and next break scene
                     currentActualStage = message.stage;
+                    currentHealth = message.health;
+                    currentGenes = message.genes;
+                    if (message.species !== currentSpecies || !progressSegments.querySelector('[data-is-break="false"]')) {
+                        currentSpecies = message.species;
+                        buildStageSegments(message.stages);
+                    }
+                    updateSeedPicker(message.seeds, message.seed, message.canChooseSeed);
                     if (message.nextBreakScene) {
                         currentNextBreakScene = message.nextBreakScene;
                     }
+                    if (message.breakScenes) {
+                        breakSceneNames = message.breakScenes;
+                    }
                     
                     // Only update plant visual if not previewing
                     if (!isPreviewingStage) {
-                        drawPlant(message.stage);
+                        drawPlant(message.species, message.stage, message.health, message.genes);
                         stageLabel.textContent = message.stage;
                     }
                     
@@ -2089,7 +3192,7 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
                     stopBtn.disabled = !message.isRunning;
                     
                     // Pulse start button on dirt stage when not running
-                    startBtn.classList.toggle('pulsing', message.stage === 'dirt' && !message.isRunning);
+                    startBtn.classList.toggle('pulsing', message.stage === message.stages[0].name && !message.isRunning);
                     
                     // Show/hide harvest button
                     if (message.canHarvest) {
@@ -2106,9 +3209,6 @@ export class PlantViewProvider implements vscode.WebviewViewProvider {
             }
         });
 
-        // Initial draw
-        drawPlant('dirt');
-        
         // Signal ready
         vscode.postMessage({ command: 'ready' });
     </script>
@@ -0,0 +1,90 @@
+import * as vscode from 'vscode';
+
+// Just the parts of the built-in git extension API (vscode.git, version 1) we use
+interface GitRepository {
+    readonly rootUri: vscode.Uri;
+    readonly state: {
+        readonly HEAD?: { readonly name?: string };
+        readonly onDidChange: vscode.Event<void>;
+    };
+}
+
+interface GitAPI {
+    readonly repositories: GitRepository[];
+    readonly onDidOpenRepository: vscode.Event<GitRepository>;
+    getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+interface GitExtension {
+    getAPI(version: 1): GitAPI;
+}
+
+export interface ProjectTag {
+    workspace?: string;
+    folderUri?: string;
+    branch?: string;
+}
+
+export const NO_PROJECT = '(no workspace)';
+
+// Which project a record or tag belongs to, for filtering
+export function getProjectName(tag: { workspace?: string }): string {
+    return tag.workspace || NO_PROJECT;
+}
+
+export class ProjectTracker implements vscode.Disposable {
+    private _git?: GitAPI;
+    private _lastBranch?: string;
+    private readonly _disposables: vscode.Disposable[] = [];
+    private readonly _onDidChangeBranch = new vscode.EventEmitter<string | undefined>();
+
+    public readonly onDidChangeBranch = this._onDidChangeBranch.event;
+
+    constructor() {
+        this._connectGit().catch((error) => console.error('Pomodoro Plants: git extension unavailable', error));
+    }
+
+    public dispose() {
+        this._disposables.forEach(d => d.dispose());
+    }
+
+    // Workspace, folder and branch the user is working in right now
+    public getCurrent(): ProjectTag {
+        const folder = this._getActiveFolder();
+        return {
+            workspace: vscode.workspace.name,
+            folderUri: folder?.uri.toString(),
+            branch: folder ? this._git?.getRepository(folder.uri)?.state.HEAD?.name : undefined
+        };
+    }
+
+    private _getActiveFolder(): vscode.WorkspaceFolder | undefined {
+        const document = vscode.window.activeTextEditor?.document;
+        return (document && vscode.workspace.getWorkspaceFolder(document.uri)) || vscode.workspace.workspaceFolders?.[0];
+    }
+
+    private async _connectGit() {
+        const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+        if (!extension) return;
+        const git = (extension.isActive ? extension.exports : await extension.activate()).getAPI(1);
+        this._git = git;
+        this._lastBranch = this.getCurrent().branch;
+
+        const watch = (repository: GitRepository) => {
+            this._disposables.push(repository.state.onDidChange(() => this._checkBranch()));
+        };
+        git.repositories.forEach(watch);
+        this._disposables.push(git.onDidOpenRepository((repository) => {
+            watch(repository);
+            this._checkBranch();
+        }));
+    }
+
+    private _checkBranch() {
+        const branch = this.getCurrent().branch;
+        if (branch !== this._lastBranch) {
+            this._lastBranch = branch;
+            this._onDidChangeBranch.fire(branch);
+        }
+    }
+}
@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+
+// Saved data we couldn't make sense of, kept for recovery instead of being thrown away
+export const QUARANTINE_KEY = 'quarantine';
+
+export interface QuarantinedData {
+    key: string;
+    quarantinedAt: string;
+    reason: string;
+    data: unknown;
+}
+
+// A quarantine that is itself damaged (say, from a hand-edited backup) is kept as its first item
+function getQuarantined(context: vscode.ExtensionContext): QuarantinedData[] {
+    const saved = context.globalState.get<unknown>(QUARANTINE_KEY, []);
+    return Array.isArray(saved) ? saved : [{
+        key: QUARANTINE_KEY,
+        quarantinedAt: new Date().toISOString(),
+        reason: 'quarantine is not a list',
+        data: saved
+    }];
+}
+
+export function quarantine(context: vscode.ExtensionContext, key: string, reason: string, data: unknown) {
+    const items = getQuarantined(context);
+    items.push({ key, quarantinedAt: new Date().toISOString(), reason, data });
+    context.globalState.update(QUARANTINE_KEY, items);
+}
+
+// Loads a saved list, quarantining the entries that fail the check (or the whole value if it
+// isn't a list) and saving what's left so the same problems aren't reported on every start
+export function loadValidList<T>(
+    context: vscode.ExtensionContext,
+    key: string,
+    isValid: (value: unknown) => value is T,
+    what: string
+): T[] {
+    const saved = context.globalState.get<unknown>(key);
+    if (saved === undefined) return [];
+    const valid = Array.isArray(saved) ? saved.filter(isValid) : [];
+    if (Array.isArray(saved) && valid.length === saved.length) return valid;
+
+    if (Array.isArray(saved)) {
+        quarantine(context, key, `${saved.length - valid.length} invalid ${what}`, saved.filter(value => !isValid(value)));
+    } else {
+        quarantine(context, key, `${key} is not a list`, saved);
+    }
+    context.globalState.update(key, valid);
+    vscode.window.showWarningMessage(
+        `🌱 Some saved ${what} were damaged and set aside. ` +
+        'They can be inspected with "Pomodoro Plants: Show Quarantined Data".'
+    );
+    return valid;
+}
+
+export async function showQuarantine(context: vscode.ExtensionContext) {
+    const items = getQuarantined(context);
+    if (items.length === 0) {
+        vscode.window.showInformationMessage('🌱 Nothing in quarantine. Your garden data is healthy!');
+        return;
+    }
+    const document = await vscode.workspace.openTextDocument({
+        language: 'json',
+        content: JSON.stringify(items, null, 2)
+    });
+    await vscode.window.showTextDocument(document, { preview: false });
+}
@@ -0,0 +1,285 @@
+import { getDateKey } from './history';
+import { DEFAULT_SPECIES, getAllSpecies } from './species';
+import { Inventory, SHOP_ITEMS, addToLedger, getPurchaseBlocker, getShopItem, isUnlocked } from './shop';
+import { startOfWeek } from './stats';
+import { GardenEvent } from './achievements';
+
+export type QuestPeriod = 'daily' | 'weekly';
+
+// Bonus fruit, or a shop item given for free
+export type QuestReward = { fruit: number } | { item: string };
+
+export interface Quest {
+    kind: string;        // id of its QUEST_KINDS entry
+    goal: number;
+    progress: number;
+    marks: string[];     // distinct things counted so far, for "different ..." quests
+    done: boolean;
+    failed: boolean;
+    reward: QuestReward;
+}
+
+export interface QuestBoard {
+    day: string;         // date key the daily quests were drawn for
+    week: string;        // date key of the Monday the weekly quests were drawn for
+    daily: Quest[];
+    weekly: Quest[];
+}
+
+// How an event moves a quest on: some progress, a distinct mark, or failing it for good
+type QuestStep = number | { mark: string } | 'fail';
+
+interface QuestKind {
+    id: string;
+    period: QuestPeriod;
+    emoji: string;
+    goals: number[];     // one is picked when the quest is drawn
+    fruit: number;       // reward, unless the quest hands out a shop item
+    title(goal: number): string;
+    advance(event: GardenEvent): QuestStep | undefined;
+    available?(goal: number, inventory: Inventory): boolean;
+}
+
+const DAILY_QUESTS = 3;
+const WEEKLY_QUESTS = 2;
+
+function plural(count: number, word: string): string {
+    return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function hasSeeds(goal: number, inventory: Inventory): boolean {
+    return getAllSpecies().filter(s => isUnlocked('seed', s.id, inventory)).length >= goal;
+}
+
+function harvestedSpecies(event: GardenEvent): QuestStep | undefined {
+    return event.type === 'harvest' ? { mark: event.record.species ?? DEFAULT_SPECIES } : undefined;
+}
+
+const QUEST_KINDS: readonly QuestKind[] = [
+    {
+        id: 'harvest',
+        period: 'daily',
+        emoji: '🧺',
+        goals: [3, 4, 5],
+        fruit: 2,
+        title: (goal) => `Harvest ${plural(goal, 'plant')}`,
+        advance: (event) => event.type === 'harvest' ? 1 : undefined
+    },
+    {
+        id: 'before-lunch',
+        period: 'daily',
+        emoji: '🌅',
+        goals: [2, 3],
+        fruit: 3,
+        title: (goal) => `Finish ${plural(goal, 'session')} before lunch`,
+        advance: (event) => event.type === 'harvest' && new Date(event.record.endedAt).getHours() < 12 ? 1 : undefined
+    },
+    {
+        id: 'variety',
+        period: 'daily',
+        emoji: '🌈',
+        goals: [2],
+        fruit: 3,
+        title: (goal) => `Grow ${goal} different species`,
+        advance: harvestedSpecies,
+        available: hasSeeds
+    },
+    {
+        id: 'focused',
+        period: 'daily',
+        emoji: '🎯',
+        goals: [1, 2],
+        fruit: 2,
+        title: (goal) => `Finish ${plural(goal, 'session')} without losing focus`,
+        advance: (event) => event.type === 'harvest' && event.record.focusLossPauses === 0 ? 1 : undefined
+    },
+    {
+        id: 'full-breaks',
+        period: 'daily',
+        emoji: '☕',
+        goals: [2, 3],
+        fruit: 2,
+        title: (goal) => `Take ${plural(goal, 'break')} in full`,
+        advance: (event) => event.type === 'breakTaken' ? 1 : undefined
+    },
+    {
+        id: 'long-breaks',
+        period: 'weekly',
+        emoji: '🛌',
+        goals: [2, 3],
+        fruit: 8,
+        title: (goal) => `Take every long break in full (${goal} of them)`,
+        advance: (event) => event.type === 'breakTaken' && event.breakType === 'long' ? 1
+            : event.type === 'breakSkipped' && event.breakType === 'long' ? 'fail' : undefined
+    },
+    {
+        id: 'harvest-week',
+        period: 'weekly',
+        emoji: '🚜',
+        goals: [20, 25, 30],
+        fruit: 10,
+        title: (goal) => `Harvest ${plural(goal, 'plant')}`,
+        advance: (event) => event.type === 'harvest' ? 1 : undefined
+    },
+    {
+        id: 'variety-week',
+        period: 'weekly',
+        emoji: '🌻',
+        goals: [3, 4],
+        fruit: 8,
+        title: (goal) => `Grow ${goal} different species`,
+        advance: harvestedSpecies,
+        available: hasSeeds
+    },
+    {
+        id: 'days',
+        period: 'weekly',
+        emoji: '📅',
+        goals: [4, 5],
+        fruit: 8,
+        title: (goal) => `Harvest something on ${goal} different days`,
+        advance: (event) => event.type === 'harvest' ? { mark: getDateKey(event.record.endedAt) } : undefined
+    }
+];
+
+function getQuestKind(id: string): QuestKind | undefined {
+    return QUEST_KINDS.find(kind => kind.id === id);
+}
+
+// The same quests for the same day or week, however often the board is redrawn
+function seededRandom(seed: string): () => number {
+    let hash = 2166136261;
+    for (let i = 0; i < seed.length; i++) {
+        hash = Math.imul(hash ^ seed.charCodeAt(i), 16777619);
+    }
+    return () => {
+        hash = Math.imul(hash ^ (hash >>> 15), 2246822507);
+        hash = Math.imul(hash ^ (hash >>> 13), 3266489909);
+        hash ^= hash >>> 16;
+        return (hash >>> 0) / 4294967296;
+    };
+}
+
+// The cheapest shop item that could be bought next, given enough fruit
+function getNextUnlock(inventory: Inventory): string | undefined {
+    return [...SHOP_ITEMS]
+        .sort((a, b) => a.price - b.price)
+        .find(item => getPurchaseBlocker(item, inventory, Infinity) === undefined)?.id;
+}
+
+function drawQuests(period: QuestPeriod, seed: string, count: number, inventory: Inventory): Quest[] {
+    const random = seededRandom(`${period}:${seed}`);
+    const pool = QUEST_KINDS.filter(kind => kind.period === period);
+    const quests: Quest[] = [];
+    while (quests.length < count && pool.length) {
+        const kind = pool.splice(Math.floor(random() * pool.length), 1)[0];
+        const goal = kind.goals[Math.floor(random() * kind.goals.length)];
+        if (kind.available && !kind.available(goal, inventory)) continue;
+        quests.push({ kind: kind.id, goal, progress: 0, marks: [], done: false, failed: false, reward: { fruit: kind.fruit } });
+    }
+    // One weekly quest hands out the next shop item instead of fruit
+    const unlock = period === 'weekly' ? getNextUnlock(inventory) : undefined;
+    if (unlock && quests.length) {
+        quests[0].reward = { item: unlock };
+    }
+    return quests;
+}
+
+// An empty board, drawn at the next day change check
+export function createQuestBoard(): QuestBoard {
+    return { day: '', week: '', daily: [], weekly: [] };
+}
+
+// Draws new daily quests when the day has changed, and weekly ones when the week has.
+// Returns whether anything was redrawn.
+export function rollOverQuests(board: QuestBoard, inventory: Inventory, now: Date = new Date()): boolean {
+    const day = getDateKey(now);
+    const week = getDateKey(startOfWeek(now));
+    let changed = false;
+    if (board.day !== day) {
+        board.day = day;
+        board.daily = drawQuests('daily', day, DAILY_QUESTS, inventory);
+        changed = true;
+    }
+    if (board.week !== week) {
+        board.week = week;
+        board.weekly = drawQuests('weekly', week, WEEKLY_QUESTS, inventory);
+        changed = true;
+    }
+    return changed;
+}
+
+// Moves every open quest on by the event, returning the ones it completed
+export function advanceQuests(board: QuestBoard, event: GardenEvent): Quest[] {
+    const completed: Quest[] = [];
+    for (const quest of [...board.daily, ...board.weekly]) {
+        if (quest.done || quest.failed) continue;
+        const step = getQuestKind(quest.kind)?.advance(event);
+        if (step === undefined) continue;
+        if (step === 'fail') {
+            quest.failed = true;
+        } else if (typeof step === 'number') {
+            quest.progress += step;
+        } else if (!quest.marks.includes(step.mark)) {
+            quest.marks.push(step.mark);
+            quest.progress = quest.marks.length;
+        }
+        if (!quest.failed && quest.progress >= quest.goal) {
+            quest.done = true;
+            completed.push(quest);
+        }
+    }
+    return completed;
+}
+
+function describeReward(reward: QuestReward, fallbackFruit: number): string {
+    const item = 'item' in reward ? getShopItem(reward.item) : undefined;
+    return item ? `${item.emoji} ${item.name}` : `+${'fruit' in reward ? reward.fruit : fallbackFruit} fruit`;
+}
+
+// Adds a completed quest's reward to the inventory and says what it was. An item bought
+// in the meantime is swapped for the quest's usual fruit.
+export function claimQuestReward(quest: Quest, inventory: Inventory): string {
+    const fruit = getQuestKind(quest.kind)?.fruit ?? 0;
+    const reward = quest.reward;
+    if ('item' in reward && getShopItem(reward.item) && !inventory.owned.includes(reward.item)) {
+        addToLedger(inventory, 0, reward.item);
+        return describeReward(reward, fruit);
+    }
+    const bonus = 'fruit' in reward ? reward.fruit : fruit;
+    addToLedger(inventory, bonus);
+    return describeReward({ fruit: bonus }, fruit);
+}
+
+// What the quest board shows for a quest
+export function describeQuest(quest: Quest) {
+    const kind = getQuestKind(quest.kind);
+    return {
+        emoji: kind?.emoji ?? '📜',
+        title: kind?.title(quest.goal) ?? quest.kind,
+        goal: quest.goal,
+        progress: Math.min(quest.progress, quest.goal),
+        done: quest.done,
+        failed: quest.failed,
+        reward: describeReward(quest.reward, kind?.fruit ?? 0)
+    };
+}
+
+function isQuest(value: unknown): value is Quest {
+    const quest = value as Quest;
+    const reward = quest?.reward as Record<string, unknown> | undefined;
+    return typeof quest === 'object' && quest !== null && getQuestKind(quest.kind) !== undefined &&
+        Number.isInteger(quest.goal) && quest.goal > 0 && Number.isInteger(quest.progress) && quest.progress >= 0 &&
+        Array.isArray(quest.marks) && quest.marks.every(m => typeof m === 'string') &&
+        typeof quest.done === 'boolean' && typeof quest.failed === 'boolean' &&
+        typeof reward === 'object' && reward !== null &&
+        (typeof reward.fruit === 'number' || typeof reward.item === 'string');
+}
+
+export function isQuestBoard(value: unknown): value is QuestBoard {
+    const board = value as QuestBoard;
+    return typeof board === 'object' && board !== null &&
+        typeof board.day === 'string' && typeof board.week === 'string' &&
+        Array.isArray(board.daily) && board.daily.every(isQuest) &&
+        Array.isArray(board.weekly) && board.weekly.every(isQuest);
+}
@@ -0,0 +1,145 @@
+import * as vscode from 'vscode';
+import { SessionHistory, SessionRecord, getDateKey, isHarvest, isManual } from './history';
+import { DateRange, pickDateRange } from './dateRange';
+import { getDayKeys, getLongestStreak } from './stats';
+import { formatLanguageShare, summarizeLanguages } from './activity';
+import { countProduce } from './species';
+
+const SPARK_CHARS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const SCENE_LABELS: Record<string, string> = {
+    hayBale: '🌾 hay bale rest',
+    lemonade: '🍋 lemonade time',
+    fishing: '🎣 fishing',
+    treeNap: '😴 tree nap',
+    campfire: '🔥 campfire',
+    stargazing: '🌠 stargazing'
+};
+
+function sparkline(values: number[]): string {
+    const max = Math.max(...values);
+    if (max === 0) return SPARK_CHARS[0].repeat(values.length);
+    return values.map(v => SPARK_CHARS[Math.round((v / max) * (SPARK_CHARS.length - 1))]).join('');
+}
+
+function formatMinutes(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+function formatDay(key: string): string {
+    const [year, month, day] = key.split('-').map(Number);
+    return `${WEEKDAYS[new Date(year, month - 1, day).getDay()]} ${key}`;
+}
+
+// Clamp open-ended presets ("All time") to days that actually have data
+function clampRange(range: DateRange, records: readonly SessionRecord[]): DateRange {
+    const today = getDateKey();
+    const first = records.length ? getDateKey(Math.min(...records.map(r => r.endedAt))) : today;
+    return {
+        from: range.from < first ? first : range.from,
+        to: range.to > today ? today : range.to
+    };
+}
+
+export function buildReport(records: readonly SessionRecord[], range: DateRange): string {
+    const days = getDayKeys(range.from, range.to);
+    const completed = records.filter(isHarvest);
+    const abandoned = records.filter(r => !isHarvest(r));
+
+    const perDay = days.map(day => {
+        const dayRecords = records.filter(r => getDateKey(r.endedAt) === day);
+        return {
+            day,
+            focusMinutes: Math.round(dayRecords.reduce((sum, r) => sum + r.focusSeconds, 0) / 60),
+            completed: dayRecords.filter(isHarvest).length,
+            abandoned: dayRecords.filter(r => !isHarvest(r)).length
+        };
+    });
+
+    const totalMinutes = perDay.reduce((sum, d) => sum + d.focusMinutes, 0);
+    const focusLossPauses = records.reduce((sum, r) => sum + (r.focusLossPauses ?? 0), 0);
+    const averagePauses = records.length ? (focusLossPauses / records.length).toFixed(1) : '0';
+    const completionRate = records.length ? Math.round((completed.length / records.length) * 100) : 0;
+
+    const lines: string[] = [
+        `# 🌱 Pomodoro Plants review: ${range.from} → ${range.to}`,
+        '',
+        '## Summary',
+        '',
+        `- ⏱ Focus time: **${formatMinutes(totalMinutes)}**`,
+        `- 🍅 Sessions completed: **${completed.length}**`,
+        `- 🥀 Sessions abandoned: **${abandoned.length}** (${completionRate}% completion)`,
+        `- 👀 Average focus-loss pauses per session: **${averagePauses}**`,
+        `- 🔥 Longest streak: **${getLongestStreak(records, days)} day(s)**`,
+        `- ✍️ Entered or corrected by hand: **${records.filter(isManual).length}**`,
+        '',
+        '## Focus per day',
+        '',
+        `Focus  \`${sparkline(perDay.map(d => d.focusMinutes))}\``,
+        '',
+        `Harvest \`${sparkline(perDay.map(d => d.completed))}\``,
+        '',
+        '| Day | Focus | Completed | Abandoned | |',
+        '|-----|------:|----------:|----------:|---|',
+        ...perDay.map(d =>
+            `| ${formatDay(d.day)} | ${formatMinutes(d.focusMinutes)} | ${d.completed} | ${d.abandoned} | ${'🍅'.repeat(d.completed)}${'🥀'.repeat(d.abandoned)} |`
+        ),
+        ''
+    ];
+
+    const produce = countProduce(completed);
+    if (produce.length > 1) {
+        lines.push('## Harvest by crop', '');
+        lines.push(...produce.map(p => `- ${p.emoji} ${p.produce}: **${p.count}**`), '');
+    }
+
+    const files = records.flatMap(r => r.files ?? []);
+    if (files.length) {
+        const focusedSeconds = files.reduce((sum, f) => sum + f.seconds, 0);
+        lines.push('## Where focus went', '');
+        lines.push(`**${formatLanguageShare(files, 5)}**`, '');
+        lines.push('| Language | Focus |', '|----------|------:|');
+        for (const [name, seconds] of summarizeLanguages(files)) {
+            lines.push(`| ${name} | ${formatMinutes(Math.round(seconds / 60))} |`);
+        }
+        lines.push('');
+
+        const perFile = new Map<string, number>();
+        for (const entry of files) {
+            perFile.set(entry.file, (perFile.get(entry.file) || 0) + entry.seconds);
+        }
+        lines.push('Top files:', '');
+        for (const [file, seconds] of [...perFile.entries()].sort((a, b) => b[1] - a[1]).slice(0, 5)) {
+            lines.push(`- \`${file}\` · ${formatMinutes(Math.round(seconds / 60))} (${Math.round((seconds / focusedSeconds) * 100)}%)`);
+        }
+        lines.push('');
+    }
+
+    const sceneCounts = new Map<string, number>();
+    for (const record of completed) {
+        if (record.breakScene) {
+            sceneCounts.set(record.breakScene, (sceneCounts.get(record.breakScene) || 0) + 1);
+        }
+    }
+    lines.push('## Breaks', '');
+    const longBreaks = completed.filter(r => r.breakType === 'long').length;
+    lines.push(`- ☕ ${completed.length - longBreaks} short, ${longBreaks} long`);
+    for (const [scene, count] of [...sceneCounts.entries()].sort((a, b) => b[1] - a[1])) {
+        lines.push(`- ${SCENE_LABELS[scene] ?? scene}: ${count}`);
+    }
+    lines.push('');
+
+    return lines.join('\n');
+}
+
+export async function showReport(history: SessionHistory) {
+    const picked = await pickDateRange('Pomodoro review report');
+    if (!picked) return;
+
+    const range = clampRange(picked, history.getAll());
+    const content = buildReport(history.getBetween(range.from, range.to), range);
+    const document = await vscode.workspace.openTextDocument({ language: 'markdown', content });
+    await vscode.window.showTextDocument(document, { preview: false });
+}
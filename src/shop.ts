@@ -0,0 +1,114 @@
+import { randomUUID } from 'crypto';
+import { SessionRecord, isHarvest } from './history';
+import shopData from './shop.json';
+
+export type ShopItemKind = 'seed' | 'pot' | 'decoration' | 'scene';
+
+// Prices and unlocks live in shop.json so they can be rebalanced without touching code
+export interface ShopItem {
+    id: string;
+    kind: ShopItemKind;
+    name: string;
+    emoji: string;
+    description: string;
+    price: number;          // harvested fruit of any kind
+    unlocks: string;        // species id, pot style, decoration sprite id or break scene
+    colors?: Record<string, string>;  // pots only: replaces the classic pot's colors
+    requires?: string;      // id of an item that has to be bought first
+}
+
+// One change to the fruit balance. The ledger is synced between machines like the session
+// history, so fruit is only spent once and items bought on one machine are owned on all of them.
+export interface LedgerEntry {
+    id: string;
+    at: number;             // epoch ms
+    fruit: number;          // negative when spent, positive for quest rewards
+    item?: string;          // shop item bought or handed out
+}
+
+export interface Inventory {
+    owned: string[];        // ids of bought items
+    ledger: LedgerEntry[];  // every purchase and reward, which the fruit balance is worked out from
+    pot?: string;           // pot style in use; absent means the classic clay pot
+    decorations: string[];  // decorations placed around the pot, in drawing order
+}
+
+export const SHOP_ITEMS: readonly ShopItem[] = shopData.items as ShopItem[];
+
+export function createDefaultInventory(): Inventory {
+    return { owned: [], ledger: [], decorations: [] };
+}
+
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+export function isLedgerEntry(value: unknown): value is LedgerEntry {
+    const entry = value as LedgerEntry;
+    return typeof entry === 'object' && entry !== null &&
+        typeof entry.id === 'string' && typeof entry.at === 'number' && Number.isInteger(entry.fruit) &&
+        (entry.item === undefined || typeof entry.item === 'string');
+}
+
+export function isInventory(value: unknown): value is Inventory {
+    const inventory = value as Inventory;
+    return typeof inventory === 'object' && inventory !== null &&
+        isStringList(inventory.owned) && isStringList(inventory.decorations) &&
+        Array.isArray(inventory.ledger) && inventory.ledger.every(isLedgerEntry) &&
+        (inventory.pot === undefined || typeof inventory.pot === 'string');
+}
+
+// Spends (negative) or adds fruit, and takes ownership of the item if there is one
+export function addToLedger(inventory: Inventory, fruit: number, item?: string) {
+    inventory.ledger.push({ id: randomUUID(), at: Date.now(), fruit, item });
+    if (item && !inventory.owned.includes(item)) {
+        inventory.owned.push(item);
+    }
+}
+
+// Adds entries synced from other machines, along with the items they bought.
+// Returns whether anything was new.
+export function mergeLedger(inventory: Inventory, entries: readonly LedgerEntry[]): boolean {
+    const known = new Set(inventory.ledger.map(entry => entry.id));
+    const added = entries.filter(entry => isLedgerEntry(entry) && !known.has(entry.id));
+    for (const entry of added) {
+        inventory.ledger.push(entry);
+        if (entry.item && getShopItem(entry.item) && !inventory.owned.includes(entry.item)) {
+            inventory.owned.push(entry.item);
+        }
+    }
+    return added.length > 0;
+}
+
+export function getShopItem(id: string): ShopItem | undefined {
+    return SHOP_ITEMS.find(item => item.id === id);
+}
+
+// Anything the shop sells is locked until bought; everything else (tomatoes, the classic pot,
+// the first break scenes, designed plants) is free
+export function isUnlocked(kind: ShopItemKind, target: string, inventory: Inventory): boolean {
+    const item = SHOP_ITEMS.find(i => i.kind === kind && i.unlocks === target);
+    return !item || inventory.owned.includes(item.id);
+}
+
+// Every harvest earns one fruit to spend, and the ledger adds quest rewards and takes away
+// what was spent. Deleting sessions from the history can take the balance below what was
+// spent, so it never shows less than zero.
+export function getFruitBalance(records: readonly SessionRecord[], inventory: Inventory): number {
+    const ledger = inventory.ledger.reduce((sum, entry) => sum + entry.fruit, 0);
+    return Math.max(records.filter(isHarvest).length + ledger, 0);
+}
+
+// Why an item can't be bought right now, or undefined if it can
+export function getPurchaseBlocker(item: ShopItem, inventory: Inventory, balance: number): string | undefined {
+    if (inventory.owned.includes(item.id)) return 'already owned';
+    const required = item.requires && getShopItem(item.requires);
+    if (required && !inventory.owned.includes(required.id)) return `needs ${required.name}`;
+    if (item.price > balance) return `needs ${item.price - balance} more fruit`;
+    return undefined;
+}
+
+// The pot style's color swaps, or none for the classic pot
+export function getPotColors(inventory: Inventory): Record<string, string> {
+    return SHOP_ITEMS.find(item => item.kind === 'pot' && item.unlocks === inventory.pot)?.colors ?? {};
+}
@@ -0,0 +1,26 @@
+export type DayPhase = 'dawn' | 'day' | 'dusk' | 'night';
+export type Season = 'spring' | 'summer' | 'autumn' | 'winter';
+export type Hemisphere = 'northern' | 'southern';
+
+export interface Sky {
+    phase: DayPhase;
+    season: Season;
+}
+
+// Hours of the local clock each phase starts at; night runs on past midnight until dawn
+const PHASE_STARTS: [DayPhase, number][] = [['dawn', 5], ['day', 8], ['dusk', 18], ['night', 21]];
+
+// Meteorological seasons by month (January first) in the northern hemisphere
+const SEASONS: Season[] = [
+    'winter', 'winter', 'spring', 'spring', 'spring', 'summer',
+    'summer', 'summer', 'autumn', 'autumn', 'autumn', 'winter'
+];
+
+// The sky behind the pot follows the local clock and calendar. The southern
+// hemisphere has the same seasons six months later.
+export function getSky(now: Date = new Date(), hemisphere: Hemisphere = 'northern'): Sky {
+    const hour = now.getHours();
+    const phase = [...PHASE_STARTS].reverse().find(([, start]) => hour >= start)?.[0] ?? 'night';
+    const month = hemisphere === 'southern' ? (now.getMonth() + 6) % 12 : now.getMonth();
+    return { phase, season: SEASONS[month] };
+}
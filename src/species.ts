@@ -0,0 +1,151 @@
+import { SessionRecord } from './history';
+
+export interface GrowthStage {
+    name: string;
+    emoji: string;
+    from: number;   // share of the session (0-1) at which this stage begins
+}
+
+export interface Species {
+    id: string;
+    name: string;
+    produce: string;        // what a harvest yields, e.g. "tomato"
+    produceEmoji: string;
+    stages: GrowthStage[];  // in growth order; the first starts at 0, the last is ready to harvest
+}
+
+export const DEFAULT_SPECIES = 'tomato';
+
+export const BUILT_IN_SPECIES: readonly Species[] = [
+    {
+        id: 'tomato',
+        name: 'Tomato',
+        produce: 'tomato',
+        produceEmoji: '🍅',
+        stages: [
+            { name: 'dirt', emoji: '🪴', from: 0 },           // bare soil
+            { name: 'watered', emoji: '💧', from: 0.1 },      // wet soil, ready to grow
+            { name: 'cracking', emoji: '🌰', from: 0.2 },     // soil cracking, something's coming
+            { name: 'seedling', emoji: '🌱', from: 0.3 },     // tiny green peek
+            { name: 'sprout', emoji: '🌿', from: 0.4 },       // small sprout with cotyledons
+            { name: 'baby', emoji: '🪻', from: 0.5 },         // first true leaves
+            { name: 'growing', emoji: '🌳', from: 0.6 },      // stem getting taller
+            { name: 'leafy', emoji: '🍃', from: 0.7 },        // more leaves, bushier
+            { name: 'budding', emoji: '🌸', from: 0.8 },      // flower bud forming
+            { name: 'fruiting', emoji: '🍅', from: 0.9 }      // full plant with fruit!
+        ]
+    },
+    {
+        id: 'sunflower',
+        name: 'Sunflower',
+        produce: 'sunflower',
+        produceEmoji: '🌻',
+        stages: [
+            { name: 'dirt', emoji: '🪴', from: 0 },
+            { name: 'seedling', emoji: '🌱', from: 0.15 },
+            { name: 'stalk', emoji: '🌿', from: 0.35 },
+            { name: 'tall', emoji: '🎋', from: 0.55 },
+            { name: 'bud', emoji: '🟢', from: 0.75 },
+            { name: 'bloom', emoji: '🌻', from: 0.9 }
+        ]
+    },
+    {
+        id: 'cactus',
+        name: 'Cactus',
+        produce: 'cactus flower',
+        produceEmoji: '🌵',
+        stages: [
+            { name: 'sand', emoji: '🏜️', from: 0 },
+            { name: 'nub', emoji: '🟢', from: 0.2 },
+            { name: 'column', emoji: '🌵', from: 0.45 },
+            { name: 'arms', emoji: '🌵', from: 0.7 },
+            { name: 'flowering', emoji: '🌺', from: 0.9 }
+        ]
+    },
+    {
+        id: 'strawberry',
+        name: 'Strawberry',
+        produce: 'strawberry',
+        produceEmoji: '🍓',
+        stages: [
+            { name: 'dirt', emoji: '🪴', from: 0 },
+            { name: 'seedling', emoji: '🌱', from: 0.12 },
+            { name: 'leaves', emoji: '☘️', from: 0.3 },
+            { name: 'runners', emoji: '🌿', from: 0.45 },
+            { name: 'flowering', emoji: '🌼', from: 0.6 },
+            { name: 'green berries', emoji: '🫛', from: 0.75 },
+            { name: 'ripe', emoji: '🍓', from: 0.9 }
+        ]
+    },
+    {
+        id: 'bonsai',
+        name: 'Bonsai',
+        produce: 'blossom',
+        produceEmoji: '🌸',
+        stages: [
+            { name: 'soil', emoji: '🪴', from: 0 },
+            { name: 'sapling', emoji: '🌱', from: 0.2 },
+            { name: 'trunk', emoji: '🪵', from: 0.4 },
+            { name: 'branches', emoji: '🌳', from: 0.6 },
+            { name: 'pruned', emoji: '✂️', from: 0.8 },
+            { name: 'blossom', emoji: '🌸', from: 0.95 }
+        ]
+    }
+];
+
+// Species designed by users, registered by the sprite library once their sprites load
+let customSpecies: readonly Species[] = [];
+
+export function setCustomSpecies(species: readonly Species[]) {
+    customSpecies = species;
+}
+
+export function getAllSpecies(): readonly Species[] {
+    return [...BUILT_IN_SPECIES, ...customSpecies];
+}
+
+// Lowercase slug, also used as the sprite file name
+export function isSpeciesId(id: unknown): id is string {
+    return typeof id === 'string' && /^[a-z][a-z0-9-]{0,39}$/.test(id);
+}
+
+export function isKnownSpecies(id: unknown): id is string {
+    return getAllSpecies().some(s => s.id === id);
+}
+
+// Records from before species existed were all tomatoes; species whose sprites
+// were removed are drawn as tomatoes too
+export function getSpecies(id?: string): Species {
+    return getAllSpecies().find(s => s.id === id) ?? BUILT_IN_SPECIES.find(s => s.id === DEFAULT_SPECIES)!;
+}
+
+export function getStageIndex(species: Species, progress: number): number {
+    let index = 0;
+    species.stages.forEach((stage, i) => {
+        if (progress >= stage.from) index = i;
+    });
+    return index;
+}
+
+export interface ProduceCount {
+    species: string;
+    produce: string;
+    emoji: string;
+    count: number;
+}
+
+// Harvests grouped by what they yielded, in species order; species that are no longer
+// installed keep their own count
+export function countProduce(records: readonly SessionRecord[]): ProduceCount[] {
+    const counts = new Map<string, number>();
+    for (const record of records) {
+        const id = record.species ?? DEFAULT_SPECIES;
+        counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+    const known = getAllSpecies().filter(s => counts.has(s.id));
+    const missing = [...counts.keys()].filter(id => !known.some(s => s.id === id));
+    return [
+        ...known.map(s => ({ species: s.id, produce: s.produce, emoji: s.produceEmoji, count: counts.get(s.id)! })),
+        ...missing.map(id => ({ species: id, produce: id, emoji: '🌱', count: counts.get(id)! }))
+    ];
+}
@@ -0,0 +1,772 @@
+import * as vscode from 'vscode';
+import { BUILT_IN_SPECIES, getSpecies } from './species';
+import { PlantSprite, SPRITE_FORMAT, SPRITE_SIZE, SPRITE_VERSION, SpriteLibrary, validateSprite } from './spriteLibrary';
+
+// Shape of a design posted back by the webview: layers are rows of hex colors (null is transparent)
+type ColorGrid = (string | null)[][];
+
+interface PlantDesign {
+    id: string;
+    name: string;
+    produce: string;
+    produceEmoji: string;
+    base: ColorGrid;
+    stages: { name: string; emoji: string; from: number; grid: ColorGrid }[];
+}
+
+const PALETTE_KEYS = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!#$%&*+-/:;<=>?@^_~';
+
+function buildSprite(design: PlantDesign): PlantSprite {
+    const colors = [...new Set([design.base, ...design.stages.map(s => s.grid)].flat(2).filter((c): c is string => !!c))];
+    if (colors.length > PALETTE_KEYS.length) {
+        throw new Error(`a plant can use at most ${PALETTE_KEYS.length} colors`);
+    }
+    const keys = new Map(colors.map((color, i) => [color, PALETTE_KEYS[i]]));
+    const toRows = (grid: ColorGrid) => grid.map(row => row.map(color => (color && keys.get(color)) || '.').join(''));
+
+    return {
+        format: SPRITE_FORMAT,
+        version: SPRITE_VERSION,
+        id: design.id,
+        kind: 'plant',
+        species: {
+            name: design.name,
+            produce: design.produce,
+            produceEmoji: design.produceEmoji,
+            stages: design.stages.map(({ name, emoji, from }) => ({ name, emoji, from }))
+        },
+        palette: Object.fromEntries(colors.map((color, i) => [PALETTE_KEYS[i], color])),
+        base: toRows(design.base),
+        stages: Object.fromEntries(design.stages.map(s => [s.name, toRows(s.grid)]))
+    };
+}
+
+export class SpriteEditorPanel {
+    public static readonly viewType = 'pomodoroPlants.spriteEditor';
+
+    private static _current?: SpriteEditorPanel;
+
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _sprites: SpriteLibrary;
+    private _disposables: vscode.Disposable[] = [];
+
+    public static createOrShow(sprites: SpriteLibrary) {
+        if (SpriteEditorPanel._current) {
+            SpriteEditorPanel._current._panel.reveal(vscode.ViewColumn.Active);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            SpriteEditorPanel.viewType,
+            '🎨 Design a Plant',
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+        SpriteEditorPanel._current = new SpriteEditorPanel(panel, sprites);
+    }
+
+    private constructor(panel: vscode.WebviewPanel, sprites: SpriteLibrary) {
+        this._panel = panel;
+        this._sprites = sprites;
+
+        this._panel.webview.html = this._getHtmlForWebview();
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage((message) => {
+            switch (message.command) {
+                case 'ready':
+                    this._update();
+                    break;
+                case 'save':
+                    this._save(message.design);
+                    break;
+            }
+        }, null, this._disposables);
+
+        this._sprites.onDidChange(() => this._update(), null, this._disposables);
+    }
+
+    public dispose() {
+        SpriteEditorPanel._current = undefined;
+        this._panel.dispose();
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+
+    // Every plant can be opened as a starting point
+    private _update() {
+        this._panel.webview.postMessage({
+            type: 'update',
+            plants: Object.values(this._sprites.getAll().plant).map(sprite => ({
+                sprite,
+                builtIn: BUILT_IN_SPECIES.some(s => s.id === sprite.id),
+                species: getSpecies(sprite.id)
+            }))
+        });
+    }
+
+    private async _save(design: PlantDesign) {
+        if (BUILT_IN_SPECIES.some(s => s.id === design.id)) {
+            this._panel.webview.postMessage({ type: 'error', message: `"${design.id}" is a built-in species. Pick another id for your plant.` });
+            return;
+        }
+
+        let sprite: PlantSprite;
+        try {
+            sprite = buildSprite(design);
+        } catch (error) {
+            this._panel.webview.postMessage({ type: 'error', message: `Could not save: ${error instanceof Error ? error.message : error}` });
+            return;
+        }
+        const problems = validateSprite(sprite);
+        if (problems.length) {
+            this._panel.webview.postMessage({ type: 'error', message: `Could not save: ${problems.join('; ')}` });
+            return;
+        }
+
+        const folder = this._sprites.getSaveFolder();
+        const uri = vscode.Uri.joinPath(folder, `${sprite.id}.json`);
+        let exists = false;
+        try {
+            await vscode.workspace.fs.stat(uri);
+            exists = true;
+        } catch {
+            // New plant
+        }
+        if (exists) {
+            const choice = await vscode.window.showWarningMessage(
+                `A plant called "${sprite.id}" already exists in ${folder.fsPath}. Replace it?`,
+                { modal: true },
+                'Replace'
+            );
+            if (choice !== 'Replace') return;
+        }
+
+        await vscode.workspace.fs.createDirectory(folder);
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(sprite, null, 2) + '\n', 'utf8'));
+        await this._sprites.reload();
+        this._panel.webview.postMessage({ type: 'saved' });
+        vscode.window.showInformationMessage(`${sprite.species!.produceEmoji} ${sprite.species!.name} saved! Plant it with the seed buttons in the garden.`);
+    }
+
+    private _getHtmlForWebview(): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Design a Plant</title>
+    <style>
+        @import url('https://fonts.googleapis.com/css2?family=VT323&display=swap');
+
+        * {
+            margin: 0;
+            padding: 0;
+            box-sizing: border-box;
+        }
+
+        :root {
+            --base-font: var(--vscode-editor-font-size, 14px);
+            --bg-dark: var(--vscode-editor-background, #1e1e1e);
+            --bg-mid: var(--vscode-sideBarSectionHeader-background, #252526);
+            --border: var(--vscode-panel-border, #3c3c3c);
+            --pot: #9b6b4a;
+            --pot-dark: #6d4a35;
+            --pot-light: #b8846a;
+            --leaf: #4a8c3f;
+            --stem: #2d5a27;
+            --leaf-light: #6db35f;
+            --flower: #e85d75;
+            --text: var(--vscode-foreground, #cccccc);
+            --text-dim: var(--vscode-descriptionForeground, #8a8a8a);
+            --accent: #8bc78b;
+        }
+
+        body {
+            font-family: 'VT323', monospace;
+            font-size: calc(var(--base-font) * 1.2);
+            background: var(--bg-dark);
+            color: var(--text);
+            padding: 16px 24px;
+        }
+
+        h1 {
+            font-size: 2em;
+            font-weight: normal;
+            color: var(--accent);
+            text-shadow: 0 0 20px rgba(139, 199, 139, 0.4);
+            margin-bottom: 12px;
+        }
+
+        h2 {
+            font-size: 1.1em;
+            font-weight: normal;
+            color: var(--text-dim);
+            text-transform: uppercase;
+            letter-spacing: 1px;
+            margin-bottom: 6px;
+        }
+
+        .card {
+            background: var(--bg-mid);
+            border: 1px solid var(--border);
+            border-radius: 6px;
+            padding: 10px 12px;
+            margin-bottom: 16px;
+        }
+
+        .form-row {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 10px;
+            align-items: flex-end;
+        }
+
+        .columns {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 16px;
+            align-items: flex-start;
+        }
+
+        label {
+            display: flex;
+            flex-direction: column;
+            gap: 2px;
+            color: var(--text-dim);
+            font-size: 0.9em;
+        }
+
+        input, select {
+            font-family: 'VT323', monospace;
+            font-size: 1em;
+            color: var(--text);
+            background: rgba(0,0,0,0.25);
+            border: 1px solid var(--border);
+            border-radius: 4px;
+            padding: 2px 6px;
+        }
+
+        .btn {
+            font-family: 'VT323', monospace;
+            font-size: 1em;
+            padding: 0.3em 1em;
+            border: 2px solid var(--pot);
+            background: linear-gradient(180deg, var(--pot-light) 0%, var(--pot) 50%, var(--pot-dark) 100%);
+            color: var(--text);
+            cursor: pointer;
+            border-radius: 6px;
+            text-transform: uppercase;
+            box-shadow: 0 3px 0 var(--pot-dark);
+        }
+
+        .btn.save {
+            background: linear-gradient(180deg, var(--leaf-light) 0%, var(--leaf) 50%, var(--stem) 100%);
+            border-color: var(--stem);
+            box-shadow: 0 3px 0 #1e3d1a;
+        }
+
+        .btn.small {
+            font-size: 0.9em;
+            padding: 0.1em 0.6em;
+        }
+
+        .btn.active {
+            outline: 2px solid var(--accent);
+        }
+
+        .error {
+            color: var(--flower);
+            margin-top: 6px;
+            min-height: 1.2em;
+        }
+
+        .pixel-art {
+            image-rendering: pixelated;
+            image-rendering: crisp-edges;
+        }
+
+        #grid {
+            background-color: rgba(0,0,0,0.25);
+            background-image:
+                linear-gradient(rgba(255,255,255,0.06) 1px, transparent 1px),
+                linear-gradient(90deg, rgba(255,255,255,0.06) 1px, transparent 1px);
+            background-size: 12px 12px;
+            border: 1px solid var(--border);
+            cursor: crosshair;
+        }
+
+        .palette {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 4px;
+            max-width: 420px;
+            margin: 6px 0;
+        }
+
+        .swatch {
+            width: 22px;
+            height: 22px;
+            border: 2px solid var(--border);
+            border-radius: 3px;
+            cursor: pointer;
+        }
+
+        .swatch.selected {
+            border-color: var(--text);
+            box-shadow: 0 0 6px var(--accent);
+        }
+
+        .stage-list {
+            display: flex;
+            flex-direction: column;
+            gap: 4px;
+        }
+
+        .stage-row {
+            display: flex;
+            gap: 6px;
+            align-items: center;
+            padding: 2px 4px;
+            border-radius: 4px;
+            cursor: pointer;
+        }
+
+        .stage-row.selected {
+            background: rgba(139, 199, 139, 0.15);
+        }
+
+        .stage-row input {
+            width: 7em;
+        }
+
+        .stage-row input.emoji {
+            width: 3em;
+        }
+
+        .stage-row input.from {
+            width: 4em;
+        }
+
+        .preview {
+            display: flex;
+            flex-direction: column;
+            align-items: center;
+            gap: 6px;
+        }
+
+        .progress-bar {
+            width: 140px;
+            height: 12px;
+            display: flex;
+            border: 1px solid var(--border);
+            border-radius: 4px;
+            overflow: hidden;
+            background: rgba(0,0,0,0.25);
+        }
+
+        .progress-segment {
+            height: 100%;
+            border-right: 1px solid rgba(255,255,255,0.1);
+        }
+
+        .progress-segment:last-child {
+            border-right: none;
+        }
+
+        .progress-segment:hover {
+            background: rgba(255,255,255,0.15);
+        }
+
+        .preview-label {
+            color: var(--text-dim);
+            min-height: 1.2em;
+        }
+    </style>
+</head>
+<body>
+    <h1>🎨 Design a Plant</h1>
+
+    <div class="card">
+        <h2>Species</h2>
+        <div class="form-row">
+            <label>Start from
+                <select id="startFrom"></select>
+            </label>
+            <label>Id <input type="text" id="speciesId" placeholder="team-mascot" style="width: 10em;"></label>
+            <label>Name <input type="text" id="speciesName" placeholder="Team Mascot"></label>
+            <label>Produce <input type="text" id="produce" placeholder="mascot" style="width: 8em;"></label>
+            <label>Emoji <input type="text" id="produceEmoji" placeholder="🦊" style="width: 3em;"></label>
+            <button class="btn save" id="saveBtn">Save</button>
+        </div>
+        <div class="error" id="error"></div>
+    </div>
+
+    <div class="columns">
+        <div class="card">
+            <h2 id="layerTitle">Painting: base</h2>
+            <canvas id="grid" class="pixel-art" width="420" height="420"></canvas>
+            <div class="palette" id="palette"></div>
+            <div class="form-row">
+                <button class="btn small" id="pencilBtn">✏️ Paint</button>
+                <button class="btn small" id="eraserBtn">🧽 Erase</button>
+                <label>Add color <input type="color" id="newColor" value="#4a8c3f"></label>
+                <button class="btn small" id="copyPrevBtn">Copy previous stage</button>
+                <button class="btn small" id="clearBtn">Clear layer</button>
+            </div>
+        </div>
+
+        <div class="card">
+            <h2>Layers</h2>
+            <div class="stage-list">
+                <div class="stage-row" id="baseRow">🪴 base (under every stage)</div>
+                <div id="stageRows" class="stage-list"></div>
+            </div>
+            <div class="form-row" style="margin-top: 6px;">
+                <button class="btn small" id="addStageBtn">+ Stage</button>
+                <button class="btn small" id="removeStageBtn">− Stage</button>
+            </div>
+        </div>
+
+        <div class="card preview">
+            <h2>Preview</h2>
+            <canvas id="preview" class="pixel-art" width="140" height="140"></canvas>
+            <div class="preview-label" id="previewLabel"></div>
+            <div class="progress-bar" id="progressBar"></div>
+            <button class="btn small" id="growBtn">▶ Grow</button>
+        </div>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        const SIZE = ${SPRITE_SIZE};
+        const CELL = 12;
+
+        const gridCanvas = document.getElementById('grid');
+        const gridCtx = gridCanvas.getContext('2d');
+        const previewCanvas = document.getElementById('preview');
+        const previewCtx = previewCanvas.getContext('2d');
+        const previewLabel = document.getElementById('previewLabel');
+        const progressBar = document.getElementById('progressBar');
+        const paletteDiv = document.getElementById('palette');
+        const stageRows = document.getElementById('stageRows');
+        const baseRow = document.getElementById('baseRow');
+        const layerTitle = document.getElementById('layerTitle');
+        const startFrom = document.getElementById('startFrom');
+        const idInput = document.getElementById('speciesId');
+        const nameInput = document.getElementById('speciesName');
+        const produceInput = document.getElementById('produce');
+        const emojiInput = document.getElementById('produceEmoji');
+        const errorDiv = document.getElementById('error');
+        const pencilBtn = document.getElementById('pencilBtn');
+        const eraserBtn = document.getElementById('eraserBtn');
+
+        // The garden's own colors, so new plants match the built-in ones
+        const GARDEN_COLORS = [
+            '#3d2817', '#5c3d24', '#8b4513', '#5d2e0a', '#a0522d', '#c4713b',
+            '#2d5a27', '#1e3d1a', '#4a8c3f', '#6db35f', '#3a6d32',
+            '#e85d75', '#ff8fa3', '#f4d03f', '#e74c3c', '#ff6b6b', '#c0392b'
+        ];
+
+        let plants = [];
+        let palette = GARDEN_COLORS.slice();
+        let color = palette[8];
+        let erasing = false;
+        let layer = 'base';       // 'base' or a stage index
+        let design = emptyDesign();
+        let growTimer = null;
+
+        function emptyGrid() {
+            return Array.from({ length: SIZE }, () => Array(SIZE).fill(null));
+        }
+
+        function emptyDesign() {
+            return {
+                base: emptyGrid(),
+                stages: [
+                    { name: 'seed', emoji: '🌱', from: 0, grid: emptyGrid() },
+                    { name: 'sprout', emoji: '🌿', from: 50, grid: emptyGrid() },
+                    { name: 'grown', emoji: '🌳', from: 90, grid: emptyGrid() }
+                ]
+            };
+        }
+
+        // Sprite rows of palette keys to grids of colors
+        function toColorGrid(rows, spritePalette) {
+            const grid = emptyGrid();
+            (rows || []).forEach((row, y) => {
+                for (let x = 0; x < row.length && x < SIZE; x++) {
+                    if (row[x] !== '.') grid[y][x] = spritePalette[row[x]].toLowerCase();
+                }
+            });
+            return grid;
+        }
+
+        function loadPlant(plant) {
+            const { sprite, species, builtIn } = plant;
+            design = {
+                base: toColorGrid(sprite.base, sprite.palette),
+                stages: species.stages.map(stage => ({
+                    name: stage.name,
+                    emoji: stage.emoji,
+                    from: Math.round(stage.from * 100),
+                    grid: toColorGrid(sprite.stages[stage.name], sprite.palette)
+                }))
+            };
+            idInput.value = builtIn ? sprite.id + '-remix' : sprite.id;
+            nameInput.value = builtIn ? species.name + ' Remix' : species.name;
+            produceInput.value = species.produce;
+            emojiInput.value = species.produceEmoji;
+            Object.values(sprite.palette).forEach(c => addColor(c.toLowerCase(), false));
+            layer = design.stages.length - 1;
+            renderAll();
+        }
+
+        function addColor(value, select) {
+            if (!palette.includes(value)) palette.push(value);
+            if (select) {
+                color = value;
+                erasing = false;
+            }
+            renderPalette();
+        }
+
+        function currentGrid() {
+            return layer === 'base' ? design.base : design.stages[layer].grid;
+        }
+
+        function drawLayers(context, cell, stageIndex) {
+            context.clearRect(0, 0, SIZE * cell, SIZE * cell);
+            const layers = [design.base];
+            if (stageIndex !== 'base' && design.stages[stageIndex]) layers.push(design.stages[stageIndex].grid);
+            layers.forEach(grid => grid.forEach((row, y) => row.forEach((c, x) => {
+                if (!c) return;
+                context.fillStyle = c;
+                context.fillRect(x * cell, y * cell, cell, cell);
+            })));
+        }
+
+        function renderGrid() {
+            drawLayers(gridCtx, CELL, layer);
+            layerTitle.textContent = 'Painting: ' + (layer === 'base' ? 'base' : design.stages[layer].emoji + ' ' + design.stages[layer].name);
+        }
+
+        function renderPalette() {
+            paletteDiv.innerHTML = '';
+            palette.forEach(c => {
+                const swatch = document.createElement('div');
+                swatch.className = 'swatch' + (c === color && !erasing ? ' selected' : '');
+                swatch.style.background = c;
+                swatch.title = c;
+                swatch.addEventListener('click', () => {
+                    color = c;
+                    erasing = false;
+                    renderPalette();
+                });
+                paletteDiv.appendChild(swatch);
+            });
+            pencilBtn.classList.toggle('active', !erasing);
+            eraserBtn.classList.toggle('active', erasing);
+        }
+
+        function renderStages() {
+            stageRows.innerHTML = '';
+            baseRow.classList.toggle('selected', layer === 'base');
+            design.stages.forEach((stage, index) => {
+                const row = document.createElement('div');
+                row.className = 'stage-row' + (layer === index ? ' selected' : '');
+                const emoji = document.createElement('input');
+                emoji.className = 'emoji';
+                emoji.value = stage.emoji;
+                emoji.addEventListener('input', () => { stage.emoji = emoji.value; renderPreview(); });
+                const name = document.createElement('input');
+                name.value = stage.name;
+                name.addEventListener('input', () => { stage.name = name.value.trim(); renderPreview(); });
+                const from = document.createElement('input');
+                from.className = 'from';
+                from.type = 'number';
+                from.min = 0;
+                from.max = 99;
+                from.value = stage.from;
+                from.disabled = index === 0;
+                from.title = 'Starts at this % of the session';
+                from.addEventListener('change', () => { stage.from = Number(from.value); renderPreview(); });
+                row.append(emoji, name, from, '%');
+                row.addEventListener('click', () => selectLayer(index));
+                stageRows.appendChild(row);
+            });
+        }
+
+        // Same hover preview as the garden's progress bar: one segment per stage, sized by its share
+        function renderPreview(shownStage) {
+            progressBar.innerHTML = '';
+            design.stages.forEach((stage, index) => {
+                const next = design.stages[index + 1];
+                const segment = document.createElement('div');
+                segment.className = 'progress-segment';
+                segment.style.flexGrow = Math.max(1, (next ? next.from : 100) - stage.from);
+                segment.addEventListener('mouseenter', () => showStage(index));
+                progressBar.appendChild(segment);
+            });
+            showStage(shownStage === undefined ? (layer === 'base' ? 0 : layer) : shownStage);
+        }
+
+        function showStage(index) {
+            const stage = design.stages[index];
+            if (!stage) return;
+            drawLayers(previewCtx, 4, index);
+            previewLabel.textContent = stage.emoji + ' ' + stage.name + ' (' + stage.from + '%)';
+        }
+
+        function renderAll() {
+            renderGrid();
+            renderPalette();
+            renderStages();
+            renderPreview();
+        }
+
+        function selectLayer(index) {
+            if (layer === index) return;
+            layer = index;
+            renderAll();
+        }
+
+        // Painting: drag to paint, hold right button (or pick Erase) to erase
+        let painting = false;
+        function paintAt(event) {
+            const rect = gridCanvas.getBoundingClientRect();
+            const x = Math.floor((event.clientX - rect.left) / (rect.width / SIZE));
+            const y = Math.floor((event.clientY - rect.top) / (rect.height / SIZE));
+            if (x < 0 || y < 0 || x >= SIZE || y >= SIZE) return;
+            const value = erasing || event.buttons === 2 ? null : color;
+            const grid = currentGrid();
+            if (grid[y][x] === value) return;
+            grid[y][x] = value;
+            renderGrid();
+            renderPreview();
+        }
+        gridCanvas.addEventListener('contextmenu', event => event.preventDefault());
+        gridCanvas.addEventListener('mousedown', event => { painting = true; paintAt(event); });
+        gridCanvas.addEventListener('mousemove', event => { if (painting) paintAt(event); });
+        window.addEventListener('mouseup', () => { painting = false; });
+
+        pencilBtn.addEventListener('click', () => { erasing = false; renderPalette(); });
+        eraserBtn.addEventListener('click', () => { erasing = true; renderPalette(); });
+        document.getElementById('newColor').addEventListener('change', event => addColor(event.target.value.toLowerCase(), true));
+        baseRow.addEventListener('click', () => selectLayer('base'));
+
+        document.getElementById('clearBtn').addEventListener('click', () => {
+            const grid = currentGrid();
+            grid.forEach(row => row.fill(null));
+            renderGrid();
+            renderPreview();
+        });
+
+        // Stages usually build on the one before, so start from a copy of it
+        document.getElementById('copyPrevBtn').addEventListener('click', () => {
+            if (layer === 'base' || layer === 0) return;
+            design.stages[layer].grid = design.stages[layer - 1].grid.map(row => row.slice());
+            renderGrid();
+            renderPreview();
+        });
+
+        document.getElementById('addStageBtn').addEventListener('click', () => {
+            const last = design.stages[design.stages.length - 1];
+            const from = Math.min(99, last.from + Math.max(1, Math.round((100 - last.from) / 2)));
+            design.stages.push({ name: 'stage ' + (design.stages.length + 1), emoji: '🌱', from, grid: last.grid.map(row => row.slice()) });
+            layer = design.stages.length - 1;
+            renderAll();
+        });
+
+        document.getElementById('removeStageBtn').addEventListener('click', () => {
+            if (design.stages.length <= 2) return;
+            const index = layer === 'base' ? design.stages.length - 1 : layer;
+            design.stages.splice(index, 1);
+            design.stages[0].from = 0;
+            layer = Math.min(index, design.stages.length - 1);
+            renderAll();
+        });
+
+        // Plays the stages in order like a session growing
+        document.getElementById('growBtn').addEventListener('click', () => {
+            clearInterval(growTimer);
+            let index = 0;
+            showStage(index);
+            growTimer = setInterval(() => {
+                index++;
+                if (index >= design.stages.length) {
+                    clearInterval(growTimer);
+                    return;
+                }
+                showStage(index);
+            }, 600);
+        });
+
+        startFrom.addEventListener('change', () => {
+            const plant = plants.find(p => p.sprite.id === startFrom.value);
+            if (plant) {
+                loadPlant(plant);
+            } else {
+                design = emptyDesign();
+                layer = 'base';
+                renderAll();
+            }
+        });
+
+        document.getElementById('saveBtn').addEventListener('click', () => {
+            errorDiv.textContent = '';
+            vscode.postMessage({
+                command: 'save',
+                design: {
+                    id: idInput.value.trim(),
+                    name: nameInput.value.trim(),
+                    produce: produceInput.value.trim(),
+                    produceEmoji: emojiInput.value.trim(),
+                    base: design.base,
+                    stages: design.stages.map(s => ({ name: s.name, emoji: s.emoji, from: s.from / 100, grid: s.grid }))
+                }
+            });
+        });
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            switch (message.type) {
+                case 'update': {
+                    plants = message.plants;
+                    const selected = startFrom.value;
+                    startFrom.innerHTML = '';
+                    const blank = document.createElement('option');
+                    blank.value = '';
+                    blank.textContent = 'empty pot';
+                    startFrom.appendChild(blank);
+                    plants.forEach(p => {
+                        const option = document.createElement('option');
+                        option.value = p.sprite.id;
+                        option.textContent = p.species.produceEmoji + ' ' + p.species.name + (p.builtIn ? '' : ' (custom)');
+                        startFrom.appendChild(option);
+                    });
+                    startFrom.value = selected;
+                    break;
+                }
+                case 'saved':
+                    errorDiv.textContent = '';
+                    break;
+                case 'error':
+                    errorDiv.textContent = message.message;
+                    break;
+            }
+        });
+
+        renderAll();
+        vscode.postMessage({ command: 'ready' });
+    </script>
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,408 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { BREAK_SCENES } from './gardenState';
+import { BUILT_IN_SPECIES, GrowthStage, Species, isSpeciesId, setCustomSpecies } from './species';
+import { PlantHealth } from './health';
+import tomato from './sprites/tomato.json';
+import sunflower from './sprites/sunflower.json';
+import cactus from './sprites/cactus.json';
+import strawberry from './sprites/strawberry.json';
+import bonsai from './sprites/bonsai.json';
+import hayBale from './sprites/hayBale.json';
+import lemonade from './sprites/lemonade.json';
+import fishing from './sprites/fishing.json';
+import treeNap from './sprites/treeNap.json';
+import campfire from './sprites/campfire.json';
+import stargazing from './sprites/stargazing.json';
+import fence from './sprites/fence.json';
+import gnome from './sprites/gnome.json';
+import mushrooms from './sprites/mushrooms.json';
+import butterfly from './sprites/butterfly.json';
+import badgeFirstHarvest from './sprites/badge-first-harvest.json';
+import badgeLaserFocus from './sprites/badge-laser-focus.json';
+import badgeNightOwl from './sprites/badge-night-owl.json';
+import badgeFirstPurchase from './sprites/badge-first-purchase.json';
+import badgeEarlyBird from './sprites/badge-early-bird.json';
+import badgeWellRested from './sprites/badge-well-rested.json';
+import badgeMarathon from './sprites/badge-marathon.json';
+import badgeOnARoll from './sprites/badge-on-a-roll.json';
+import badgeBumperCrop from './sprites/badge-bumper-crop.json';
+import badgeGreenThumb from './sprites/badge-green-thumb.json';
+import badgeCenturion from './sprites/badge-centurion.json';
+import { SHOP_ITEMS } from './shop';
+import { ACHIEVEMENTS } from './achievements';
+
+export const SPRITE_FORMAT = 'pomodoro-plants-sprite';
+export const SPRITE_VERSION = 1;
+// The garden canvas is 140px drawn in 4px cells
+export const SPRITE_SIZE = 35;
+
+// Rows of single-character palette keys; '.' is transparent
+export type PixelGrid = string[];
+
+interface SpriteBase {
+    format: typeof SPRITE_FORMAT;
+    version: number;
+    id: string;
+    palette: Record<string, string>;
+    base: PixelGrid;    // drawn under every stage or frame
+}
+
+// A species: one layer per growth stage, keyed by stage name. Sprites for a new
+// species describe it too; sprites for a built-in species only replace its art.
+// Wilted and dead plants redraw the stage layer with `health` palette overrides;
+// colors without an override are faded automatically. `genes` lists the palette keys
+// that bred fruit colors and leaf shapes act on.
+export interface PlantSprite extends SpriteBase {
+    kind: 'plant';
+    species?: Omit<Species, 'id'>;
+    stages: Record<string, PixelGrid>;
+    health?: Partial<Record<Exclude<PlantHealth, 'healthy'>, Record<string, string>>>;
+    genes?: { fruit?: string[]; leaf?: string[] };
+}
+
+// A break scene: frames played in `sequence` order (default: as listed), one every frameMs.
+// `farmer` lists the palette keys of each part of the farmer, which the avatar recolors.
+export interface SceneSprite extends SpriteBase {
+    kind: 'scene';
+    frameMs: number;
+    frames: PixelGrid[];
+    sequence?: number[];
+    farmer?: Partial<Record<FarmerPart, string[]>>;
+}
+
+export const FARMER_PARTS = ['hat', 'hatBand', 'hair', 'skin', 'shirt', 'overalls'] as const;
+export type FarmerPart = typeof FARMER_PARTS[number];
+
+// A garden decoration bought in the shop: just a base layer, drawn behind the pot and plant
+export interface DecorationSprite extends SpriteBase {
+    kind: 'decoration';
+}
+
+// An achievement's icon on the trophy shelf, keyed by achievement id; drawn as a silhouette until earned
+export interface BadgeSprite extends SpriteBase {
+    kind: 'badge';
+}
+
+export type Sprite = PlantSprite | SceneSprite | DecorationSprite | BadgeSprite;
+
+export interface SpriteSet {
+    plant: Record<string, PlantSprite>;
+    scene: Record<string, SceneSprite>;
+    decoration: Record<string, DecorationSprite>;
+    badge: Record<string, BadgeSprite>;
+}
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const BUILT_IN_SPRITES = [
+    tomato, sunflower, cactus, strawberry, bonsai,
+    hayBale, lemonade, fishing, treeNap, campfire, stargazing,
+    fence, gnome, mushrooms, butterfly,
+    badgeFirstHarvest, badgeLaserFocus, badgeNightOwl, badgeFirstPurchase, badgeEarlyBird, badgeWellRested,
+    badgeMarathon, badgeOnARoll, badgeBumperCrop, badgeGreenThumb, badgeCenturion
+] as Sprite[];
+
+function validateGrid(grid: unknown, palette: Record<string, string>, label: string, problems: string[]) {
+    if (!Array.isArray(grid) || grid.length > SPRITE_SIZE || !grid.every(row => typeof row === 'string')) {
+        problems.push(`${label} must be a list of at most ${SPRITE_SIZE} rows`);
+        return;
+    }
+    grid.forEach((row: string, y) => {
+        if (row.length > SPRITE_SIZE) {
+            problems.push(`${label} row ${y + 1} is wider than ${SPRITE_SIZE} pixels`);
+        }
+        const unknown = [...new Set(row)].filter(key => key !== '.' && !(key in palette));
+        if (unknown.length) {
+            problems.push(`${label} row ${y + 1} uses colors missing from the palette: ${unknown.join(' ')}`);
+        }
+    });
+}
+
+function validateHealthPalettes(health: PlantSprite['health'], palette: Record<string, string>, problems: string[]) {
+    if (health === undefined) return;
+    if (typeof health !== 'object' || health === null) {
+        problems.push('health must map "wilted" and "dead" to palette overrides');
+        return;
+    }
+    for (const [state, overrides] of Object.entries(health)) {
+        if (state !== 'wilted' && state !== 'dead') {
+            problems.push(`unknown health state "${state}" (expected wilted or dead)`);
+        } else if (typeof overrides !== 'object' || overrides === null) {
+            problems.push(`health "${state}" must map palette keys to colors`);
+        } else {
+            for (const [key, color] of Object.entries(overrides)) {
+                if (!(key in palette)) {
+                    problems.push(`health "${state}" overrides "${key}", which is missing from the palette`);
+                } else if (typeof color !== 'string' || !HEX_COLOR.test(color)) {
+                    problems.push(`health "${state}" color for "${key}" must be a hex color like #8a7d3a`);
+                }
+            }
+        }
+    }
+}
+
+function validateGeneKeys(genes: PlantSprite['genes'], palette: Record<string, string>, problems: string[]) {
+    if (genes === undefined) return;
+    if (typeof genes !== 'object' || genes === null) {
+        problems.push('genes must list the "fruit" and "leaf" palette keys');
+        return;
+    }
+    for (const [trait, keys] of Object.entries(genes)) {
+        if (trait !== 'fruit' && trait !== 'leaf') {
+            problems.push(`unknown genes trait "${trait}" (expected fruit or leaf)`);
+        } else if (!Array.isArray(keys) || !keys.every(key => typeof key === 'string' && key in palette)) {
+            problems.push(`genes "${trait}" must list keys from the palette`);
+        }
+    }
+}
+
+function validateFarmerKeys(farmer: SceneSprite['farmer'], palette: Record<string, string>, problems: string[]) {
+    if (farmer === undefined) return;
+    if (typeof farmer !== 'object' || farmer === null) {
+        problems.push('farmer must list the palette keys of each part of the farmer');
+        return;
+    }
+    for (const [part, keys] of Object.entries(farmer)) {
+        if (!(FARMER_PARTS as readonly string[]).includes(part)) {
+            problems.push(`unknown farmer part "${part}" (expected one of ${FARMER_PARTS.join(', ')})`);
+        } else if (!Array.isArray(keys) || !keys.every(key => typeof key === 'string' && key in palette)) {
+            problems.push(`farmer "${part}" must list keys from the palette`);
+        }
+    }
+}
+
+function validateSpeciesInfo(info: PlantSprite['species'], problems: string[]) {
+    if (typeof info !== 'object' || info === null) {
+        problems.push('a new species needs a "species" description with its name, produce and stages');
+        return;
+    }
+    for (const field of ['name', 'produce', 'produceEmoji'] as const) {
+        if (typeof info[field] !== 'string' || !info[field].trim()) {
+            problems.push(`species ${field} is missing`);
+        }
+    }
+    if (!Array.isArray(info.stages) || info.stages.length < 2) {
+        problems.push('species needs at least two stages');
+        return;
+    }
+    info.stages.forEach((stage, i) => {
+        if (typeof stage?.name !== 'string' || !stage.name.trim() || typeof stage.emoji !== 'string') {
+            problems.push(`species stage ${i + 1} needs a name and an emoji`);
+        } else if (info.stages.findIndex(s => s.name === stage.name) !== i) {
+            problems.push(`species stage "${stage.name}" appears twice`);
+        }
+        const previous = i === 0 ? -1 : info.stages[i - 1]?.from;
+        if (typeof stage?.from !== 'number' || stage.from >= 1 || (i === 0 ? stage.from !== 0 : !(stage.from > previous))) {
+            problems.push(`species stage ${i + 1} must start after the one before it (the first at 0, all below 1)`);
+        }
+    });
+}
+
+// Everything wrong with a sprite file, or nothing if it can be drawn
+export function validateSprite(data: unknown): string[] {
+    const sprite = data as Sprite;
+    if (typeof sprite !== 'object' || sprite === null || sprite.format !== SPRITE_FORMAT) {
+        return ['not a Pomodoro Plants sprite'];
+    }
+    if (typeof sprite.version !== 'number' || sprite.version > SPRITE_VERSION) {
+        return [`sprite version ${sprite.version} is newer than this extension supports`];
+    }
+
+    const problems: string[] = [];
+    const palette = sprite.palette;
+    if (typeof palette !== 'object' || palette === null) {
+        return ['palette is missing'];
+    }
+    for (const [key, color] of Object.entries(palette)) {
+        if (key.length !== 1 || key === '.') {
+            problems.push(`palette key "${key}" must be a single character other than "."`);
+        }
+        if (typeof color !== 'string' || !HEX_COLOR.test(color)) {
+            problems.push(`palette color for "${key}" must be a hex color like #4a8c3f`);
+        }
+    }
+    validateGrid(sprite.base, palette, 'base', problems);
+
+    if (sprite.kind === 'plant') {
+        const builtIn = BUILT_IN_SPECIES.find(s => s.id === sprite.id);
+        let stages: GrowthStage[] = [];
+        if (!isSpeciesId(sprite.id)) {
+            problems.push('id must be a lowercase name like "team-mascot"');
+        } else if (builtIn) {
+            if (sprite.species !== undefined) {
+                problems.push(`"${sprite.id}" is a built-in species, so it can't be redefined (leave out "species" to replace only its art)`);
+            }
+            stages = builtIn.stages;
+        } else {
+            validateSpeciesInfo(sprite.species, problems);
+            stages = Array.isArray(sprite.species?.stages) ? sprite.species.stages : [];
+        }
+        if (typeof sprite.stages !== 'object' || sprite.stages === null) {
+            problems.push('stages are missing');
+        } else {
+            for (const stage of stages) {
+                if (!(stage.name in sprite.stages)) {
+                    problems.push(`stage "${stage.name}" is missing`);
+                } else {
+                    validateGrid(sprite.stages[stage.name], palette, `stage "${stage.name}"`, problems);
+                }
+            }
+        }
+        validateHealthPalettes(sprite.health, palette, problems);
+        validateGeneKeys(sprite.genes, palette, problems);
+    } else if (sprite.kind === 'scene') {
+        if (!(BREAK_SCENES as readonly string[]).includes(sprite.id)) {
+            problems.push(`unknown break scene "${sprite.id}" (expected one of ${BREAK_SCENES.join(', ')})`);
+        }
+        if (typeof sprite.frameMs !== 'number' || sprite.frameMs < 30) {
+            problems.push('frameMs must be a number of at least 30');
+        }
+        if (!Array.isArray(sprite.frames) || sprite.frames.length === 0) {
+            problems.push('frames must list at least one frame');
+        } else {
+            sprite.frames.forEach((frame, i) => validateGrid(frame, palette, `frame ${i + 1}`, problems));
+            if (sprite.sequence !== undefined && (!Array.isArray(sprite.sequence) ||
+                !sprite.sequence.every(i => Number.isInteger(i) && i >= 0 && i < sprite.frames.length))) {
+                problems.push('sequence must list frame indexes');
+            }
+        }
+        validateFarmerKeys(sprite.farmer, palette, problems);
+    } else if (sprite.kind === 'decoration') {
+        const decorations = SHOP_ITEMS.filter(item => item.kind === 'decoration').map(item => item.unlocks);
+        if (!decorations.includes(sprite.id)) {
+            problems.push(`unknown decoration "${sprite.id}" (expected one of ${decorations.join(', ')})`);
+        }
+    } else if (sprite.kind === 'badge') {
+        if (!ACHIEVEMENTS.some(a => a.id === sprite.id)) {
+            problems.push(`unknown achievement "${sprite.id}" (expected one of ${ACHIEVEMENTS.map(a => a.id).join(', ')})`);
+        }
+    } else {
+        problems.push('kind must be "plant", "scene", "decoration" or "badge"');
+    }
+    return problems;
+}
+
+function resolveFolder(folder: string): vscode.Uri | undefined {
+    if (!folder) return undefined;
+    const expanded = folder.replace(/^~(?=$|[\\/])/, os.homedir());
+    if (path.isAbsolute(expanded)) {
+        return vscode.Uri.file(expanded);
+    }
+    const workspace = vscode.workspace.workspaceFolders?.[0];
+    return workspace && vscode.Uri.joinPath(workspace.uri, expanded);
+}
+
+// Where the sprite editor keeps designs when no sprite pack folder is set
+export function getDesignFolder(context: vscode.ExtensionContext): vscode.Uri {
+    return vscode.Uri.joinPath(context.globalStorageUri, 'sprites');
+}
+
+function getPackFolder(): vscode.Uri | undefined {
+    return resolveFolder(vscode.workspace.getConfiguration('pomodoroPlants').get('spritePackFolder', ''));
+}
+
+// Built-in sprites, replaced by any valid ones designed in the editor or found in the sprite pack folder
+export class SpriteLibrary implements vscode.Disposable {
+    private _sprites: SpriteSet = { plant: {}, scene: {}, decoration: {}, badge: {} };
+    private _watchers: vscode.FileSystemWatcher[] = [];
+    private readonly _designFolder: vscode.Uri;
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor(context: vscode.ExtensionContext) {
+        this._designFolder = getDesignFolder(context);
+        this._setSprites([]);
+        this.reloadSettings();
+    }
+
+    public dispose() {
+        this._watchers.forEach(w => w.dispose());
+        this._onDidChange.dispose();
+    }
+
+    public getAll(): SpriteSet {
+        return this._sprites;
+    }
+
+    // Where the editor saves: the sprite pack folder when set (so it can be shared), else extension storage
+    public getSaveFolder(): vscode.Uri {
+        return getPackFolder() ?? this._designFolder;
+    }
+
+    public reloadSettings() {
+        this._watchers.forEach(w => w.dispose());
+        this._watchers = [];
+        for (const folder of [this._designFolder, getPackFolder()]) {
+            if (!folder) continue;
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, '*.json'));
+            watcher.onDidCreate(() => this.reload());
+            watcher.onDidChange(() => this.reload());
+            watcher.onDidDelete(() => this.reload());
+            this._watchers.push(watcher);
+        }
+        this.reload();
+    }
+
+    public async reload() {
+        const skipped: string[] = [];
+        // Pack folder last so a shared pack wins over a local design with the same id
+        const custom = [
+            ...await this._readFolder(this._designFolder, skipped),
+            ...await this._readFolder(getPackFolder(), skipped, true)
+        ];
+        if (skipped.length) {
+            vscode.window.showWarningMessage(`🎨 Skipped ${skipped.length} sprite file${skipped.length === 1 ? '' : 's'}: ${skipped.join('; ')}`);
+        }
+        this._setSprites(custom);
+        this._onDidChange.fire();
+    }
+
+    private async _readFolder(folder: vscode.Uri | undefined, skipped: string[], required = false): Promise<Sprite[]> {
+        if (!folder) return [];
+        let files: [string, vscode.FileType][] = [];
+        try {
+            files = await vscode.workspace.fs.readDirectory(folder);
+        } catch {
+            if (required) {
+                vscode.window.showWarningMessage(`🎨 Sprite pack folder ${folder.fsPath} could not be read.`);
+            }
+        }
+        const sprites: Sprite[] = [];
+        for (const [file] of files.filter(([name, type]) => type === vscode.FileType.File && name.endsWith('.json'))) {
+            try {
+                const data = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder, file))).toString('utf8'));
+                const problems = validateSprite(data);
+                if (problems.length) {
+                    skipped.push(`${file} (${problems[0]}${problems.length > 1 ? ` and ${problems.length - 1} more` : ''})`);
+                } else {
+                    sprites.push(data);
+                }
+            } catch (error) {
+                skipped.push(`${file} (${error instanceof Error ? error.message : error})`);
+            }
+        }
+        return sprites;
+    }
+
+    private _setSprites(custom: Sprite[]) {
+        const sprites: SpriteSet = { plant: {}, scene: {}, decoration: {}, badge: {} };
+        for (const sprite of [...BUILT_IN_SPRITES, ...custom]) {
+            if (sprite.kind === 'plant') {
+                sprites.plant[sprite.id] = sprite;
+            } else if (sprite.kind === 'scene') {
+                sprites.scene[sprite.id] = sprite;
+            } else if (sprite.kind === 'decoration') {
+                sprites.decoration[sprite.id] = sprite;
+            } else {
+                sprites.badge[sprite.id] = sprite;
+            }
+        }
+        this._sprites = sprites;
+        setCustomSpecies(Object.values(sprites.plant)
+            .filter(sprite => sprite.species)
+            .map(sprite => ({ ...sprite.species!, id: sprite.id })));
+    }
+}
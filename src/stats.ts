@@ -0,0 +1,149 @@
+import { SessionRecord, getDateKey, isHarvest } from './history';
+import { summarizeLanguages } from './activity';
+
+export type Granularity = 'day' | 'week' | 'month';
+
+export interface PeriodStats {
+    key: string;
+    label: string;
+    focusMinutes: number;
+    fruits: number;
+    sessions: number;
+    shortBreaks: number;
+    longBreaks: number;
+}
+
+export interface HeatmapDay {
+    date: string;
+    sessions: number;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Weeks start on Monday
+export function startOfWeek(date: Date): Date {
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    return start;
+}
+
+function getPeriodKey(time: number | Date, granularity: Granularity): string {
+    const date = new Date(time);
+    switch (granularity) {
+        case 'day':
+            return getDateKey(date);
+        case 'week':
+            return getDateKey(startOfWeek(date));
+        case 'month':
+            return getDateKey(date).slice(0, 7);
+    }
+}
+
+// The `count` most recent periods ending with the one containing `now`, oldest first
+function getPeriodStarts(granularity: Granularity, count: number, now: Date): Date[] {
+    const starts: Date[] = [];
+    for (let i = count - 1; i >= 0; i--) {
+        switch (granularity) {
+            case 'day':
+                starts.push(new Date(now.getFullYear(), now.getMonth(), now.getDate() - i));
+                break;
+            case 'week': {
+                const week = startOfWeek(now);
+                week.setDate(week.getDate() - i * 7);
+                starts.push(week);
+                break;
+            }
+            case 'month':
+                starts.push(new Date(now.getFullYear(), now.getMonth() - i, 1));
+                break;
+        }
+    }
+    return starts;
+}
+
+function getPeriodLabel(start: Date, granularity: Granularity): string {
+    if (granularity === 'month') {
+        return MONTHS[start.getMonth()];
+    }
+    return `${start.getMonth() + 1}/${start.getDate()}`;
+}
+
+export function aggregate(
+    records: readonly SessionRecord[],
+    granularity: Granularity,
+    count: number,
+    now: Date = new Date()
+): PeriodStats[] {
+    const periods = getPeriodStarts(granularity, count, now).map(start => ({
+        key: getPeriodKey(start, granularity),
+        label: getPeriodLabel(start, granularity),
+        focusMinutes: 0,
+        fruits: 0,
+        sessions: 0,
+        shortBreaks: 0,
+        longBreaks: 0
+    }));
+    const byKey = new Map(periods.map(p => [p.key, p]));
+
+    for (const record of records) {
+        const period = byKey.get(getPeriodKey(record.endedAt, granularity));
+        if (!period) continue;
+        period.focusMinutes += Math.round(record.focusSeconds / 60);
+        if (!isHarvest(record)) continue;
+        period.fruits++;
+        period.sessions++;
+        if (record.breakType === 'long') {
+            period.longBreaks++;
+        } else if (record.breakType === 'short') {
+            period.shortBreaks++;
+        }
+    }
+    return periods;
+}
+
+// One entry per day for the last `weeks` full weeks, oldest first (calendar heatmap)
+export function getHeatmap(records: readonly SessionRecord[], weeks: number, now: Date = new Date()): HeatmapDay[] {
+    const counts = new Map<string, number>();
+    for (const record of records.filter(isHarvest)) {
+        const key = getDateKey(record.endedAt);
+        counts.set(key, (counts.get(key) || 0) + 1);
+    }
+
+    const days: HeatmapDay[] = [];
+    const first = startOfWeek(now);
+    first.setDate(first.getDate() - (weeks - 1) * 7);
+    for (let i = 0; i < weeks * 7; i++) {
+        const date = getDateKey(new Date(first.getFullYear(), first.getMonth(), first.getDate() + i));
+        days.push({ date, sessions: counts.get(date) || 0 });
+    }
+    return days;
+}
+
+// Every date key from `from` to `to`, inclusive
+export function getDayKeys(from: string, to: string): string[] {
+    const keys: string[] = [];
+    const [year, month, day] = from.split('-').map(Number);
+    for (let date = new Date(year, month - 1, day); getDateKey(date) <= to; date.setDate(date.getDate() + 1)) {
+        keys.push(getDateKey(date));
+    }
+    return keys;
+}
+
+// Longest run of consecutive days (within `days`) that had at least one harvest
+export function getLongestStreak(records: readonly SessionRecord[], days: string[]): number {
+    const active = new Set(records.filter(isHarvest).map(r => getDateKey(r.endedAt)));
+    let longest = 0;
+    let current = 0;
+    for (const day of days) {
+        current = active.has(day) ? current + 1 : 0;
+        longest = Math.max(longest, current);
+    }
+    return longest;
+}
+
+// Focused seconds per language for sessions ending on or after `sinceKey`
+export function getLanguageTotals(records: readonly SessionRecord[], sinceKey: string): [string, number][] {
+    return summarizeLanguages(records
+        .filter(r => getDateKey(r.endedAt) >= sinceKey)
+        .flatMap(r => r.files ?? []));
+}
@@ -0,0 +1,440 @@
+import * as vscode from 'vscode';
+import { SessionHistory, getDateKey, isHarvest } from './history';
+import { getProjectName } from './project';
+import { Granularity, aggregate, getHeatmap, getLanguageTotals } from './stats';
+
+export class StatsPanel {
+    public static readonly viewType = 'pomodoroPlants.stats';
+
+    private static _current?: StatsPanel;
+
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _history: SessionHistory;
+    private _project?: string;
+    private _disposables: vscode.Disposable[] = [];
+
+    public static createOrShow(history: SessionHistory) {
+        if (StatsPanel._current) {
+            StatsPanel._current._panel.reveal(vscode.ViewColumn.Active);
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            StatsPanel.viewType,
+            '🌱 Garden Stats',
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+        StatsPanel._current = new StatsPanel(panel, history);
+    }
+
+    private constructor(panel: vscode.WebviewPanel, history: SessionHistory) {
+        this._panel = panel;
+        this._history = history;
+
+        this._panel.webview.html = this._getHtmlForWebview();
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage((message) => {
+            switch (message.command) {
+                case 'ready':
+                    this._update();
+                    break;
+                case 'setProject':
+                    this._project = message.project || undefined;
+                    this._update();
+                    break;
+            }
+        }, null, this._disposables);
+
+        // Redraw whenever a session is harvested
+        this._history.onDidChange(() => this._update(), null, this._disposables);
+    }
+
+    public dispose() {
+        StatsPanel._current = undefined;
+        this._panel.dispose();
+        while (this._disposables.length) {
+            this._disposables.pop()?.dispose();
+        }
+    }
+
+    private _update() {
+        const records = this._history.getAll().filter(r => !this._project || getProjectName(r) === this._project);
+        const ranges: [Granularity, number][] = [['day', 14], ['week', 12], ['month', 12]];
+        const periods = Object.fromEntries(ranges.map(([granularity, count]) => [granularity, aggregate(records, granularity, count)]));
+        const languages = Object.fromEntries(ranges.map(([granularity]) => [granularity, getLanguageTotals(records, periods[granularity][0].key)]));
+
+        this._panel.webview.postMessage({
+            type: 'update',
+            today: getDateKey(),
+            projects: this._history.getProjects(),
+            project: this._project,
+            ...periods,
+            languages,
+            heatmap: getHeatmap(records, 53),
+            totals: {
+                sessions: records.filter(isHarvest).length,
+                focusMinutes: Math.round(records.reduce((sum, r) => sum + r.focusSeconds, 0) / 60)
+            }
+        });
+    }
+
+    private _getHtmlForWebview(): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Garden Stats</title>
+    <style>
+        @import url('https://fonts.googleapis.com/css2?family=VT323&display=swap');
+
+        * {
+            margin: 0;
+            padding: 0;
+            box-sizing: border-box;
+        }
+
+        :root {
+            --base-font: var(--vscode-editor-font-size, 14px);
+            --bg-dark: var(--vscode-editor-background, #1e1e1e);
+            --bg-mid: var(--vscode-sideBarSectionHeader-background, #252526);
+            --border: var(--vscode-panel-border, #3c3c3c);
+            --pot: #9b6b4a;
+            --pot-dark: #6d4a35;
+            --pot-light: #b8846a;
+            --text: var(--vscode-foreground, #cccccc);
+            --text-dim: var(--vscode-descriptionForeground, #8a8a8a);
+            --accent: #8bc78b;
+        }
+
+        body {
+            font-family: 'VT323', monospace;
+            font-size: calc(var(--base-font) * 1.2);
+            background: var(--bg-dark);
+            color: var(--text);
+            padding: 16px 24px;
+            image-rendering: pixelated;
+        }
+
+        h1 {
+            font-size: 2em;
+            font-weight: normal;
+            color: var(--accent);
+            text-shadow: 0 0 20px rgba(139, 199, 139, 0.4);
+        }
+
+        .totals {
+            color: var(--text-dim);
+            margin-bottom: 12px;
+        }
+
+        .tabs {
+            display: flex;
+            gap: 8px;
+            margin-bottom: 12px;
+            align-items: center;
+        }
+
+        .project-filter {
+            margin-left: auto;
+            font-family: 'VT323', monospace;
+            font-size: 1em;
+            color: var(--text);
+            background: var(--bg-mid);
+            border: 1px solid var(--border);
+            border-radius: 4px;
+            padding: 2px 6px;
+        }
+
+        .tab {
+            font-family: 'VT323', monospace;
+            font-size: 1em;
+            padding: 0.3em 1em;
+            border: 2px solid var(--pot);
+            background: linear-gradient(180deg, var(--pot-light) 0%, var(--pot) 50%, var(--pot-dark) 100%);
+            color: var(--text);
+            cursor: pointer;
+            border-radius: 6px;
+            text-transform: uppercase;
+            box-shadow: 0 3px 0 var(--pot-dark);
+            opacity: 0.6;
+        }
+
+        .tab.active {
+            opacity: 1;
+        }
+
+        .charts {
+            display: grid;
+            grid-template-columns: repeat(auto-fill, minmax(360px, 1fr));
+            gap: 16px;
+        }
+
+        .chart {
+            background: var(--bg-mid);
+            border: 1px solid var(--border);
+            border-radius: 6px;
+            padding: 8px 10px;
+        }
+
+        .chart h2, .heatmap h2 {
+            font-size: 1.1em;
+            font-weight: normal;
+            color: var(--text-dim);
+            text-transform: uppercase;
+            letter-spacing: 1px;
+            margin-bottom: 4px;
+        }
+
+        canvas {
+            image-rendering: pixelated;
+            image-rendering: crisp-edges;
+            width: 100%;
+        }
+
+        .heatmap {
+            margin-top: 16px;
+            background: var(--bg-mid);
+            border: 1px solid var(--border);
+            border-radius: 6px;
+            padding: 8px 10px;
+            overflow-x: auto;
+        }
+
+        .heatmap canvas {
+            width: auto;
+        }
+
+        .legend {
+            color: var(--text-dim);
+            font-size: 0.9em;
+        }
+    </style>
+</head>
+<body>
+    <h1>🌱 Garden Stats</h1>
+    <div class="totals" id="totals"></div>
+
+    <div class="tabs">
+        <button class="tab active" data-range="day">Daily</button>
+        <button class="tab" data-range="week">Weekly</button>
+        <button class="tab" data-range="month">Monthly</button>
+        <select class="project-filter" id="projectFilter" title="Filter by project"></select>
+    </div>
+
+    <div class="charts">
+        <div class="chart"><h2>⏱ Focus minutes</h2><canvas id="focusChart" width="400" height="140"></canvas></div>
+        <div class="chart"><h2>🍅 Fruit harvested</h2><canvas id="fruitChart" width="400" height="140"></canvas></div>
+        <div class="chart"><h2>🌱 Sessions completed</h2><canvas id="sessionChart" width="400" height="140"></canvas></div>
+        <div class="chart"><h2>☕ Breaks <span class="legend">(long on top of short)</span></h2><canvas id="breakChart" width="400" height="140"></canvas></div>
+        <div class="chart"><h2>🗂 Languages</h2><canvas id="languageChart" width="400" height="140"></canvas></div>
+    </div>
+
+    <div class="heatmap">
+        <h2>📅 Sessions in the last year</h2>
+        <canvas id="heatmapCanvas" width="${53 * 12}" height="${7 * 12}"></canvas>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        const colors = {
+            soil: '#3d2817',
+            soilLight: '#5c3d24',
+            stem: '#2d5a27',
+            leaf: '#4a8c3f',
+            leafLight: '#6db35f',
+            fruit: '#e74c3c',
+            fruitShine: '#ff6b6b',
+            water: '#5a9fd4',
+            hay: '#d4a855',
+            grid: 'rgba(255,255,255,0.08)',
+            label: '#8a8a8a'
+        };
+
+        // Darkest to brightest garden greens for the heatmap
+        const heatColors = ['rgba(255,255,255,0.06)', '#1e3d1a', '#2d5a27', '#4a8c3f', '#6db35f'];
+
+        const PIXEL = 4;
+        let currentRange = 'day';
+        let lastData = null;
+
+        function drawPixel(ctx, x, y, color, size = PIXEL) {
+            ctx.fillStyle = color;
+            ctx.fillRect(x * size, y * size, size, size);
+        }
+
+        // Blocky bar chart: each bar is a stack of pixel layers [{ value, color }]
+        function drawBarChart(canvas, periods, layersFor) {
+            const ctx = canvas.getContext('2d');
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+            const cols = Math.floor(canvas.width / PIXEL);
+            const labelRows = 5;
+            const rows = Math.floor(canvas.height / PIXEL) - labelRows;
+            const slot = Math.floor(cols / periods.length);
+            const barWidth = Math.max(1, slot - 2);
+
+            const totals = periods.map(p => layersFor(p).reduce((sum, l) => sum + l.value, 0));
+            const max = Math.max(1, ...totals);
+
+            // Ground line, like the soil under the pot
+            for (let x = 0; x < cols; x++) {
+                drawPixel(ctx, x, rows, colors.soil);
+            }
+
+            periods.forEach((period, i) => {
+                const left = i * slot + 1;
+                let y = rows - 1;
+                for (const layer of layersFor(period)) {
+                    const height = Math.round((layer.value / max) * (rows - 2));
+                    for (let h = 0; h < height; h++, y--) {
+                        for (let x = 0; x < barWidth; x++) {
+                            drawPixel(ctx, left + x, y, x === 0 ? layer.shine || layer.color : layer.color);
+                        }
+                    }
+                }
+
+                ctx.fillStyle = colors.label;
+                ctx.font = '14px VT323, monospace';
+                ctx.textAlign = 'center';
+                if (periods.length <= 14 || i % 2 === 0) {
+                    ctx.fillText(period.label, (left + barWidth / 2) * PIXEL, canvas.height - 2);
+                }
+                if (totals[i] > 0) {
+                    ctx.fillText(String(totals[i]), (left + barWidth / 2) * PIXEL, (y - 1) * PIXEL);
+                }
+            });
+        }
+
+        function drawHeatmap(days, today) {
+            const canvas = document.getElementById('heatmapCanvas');
+            const ctx = canvas.getContext('2d');
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+            const max = Math.max(1, ...days.map(d => d.sessions));
+            days.forEach((day, i) => {
+                const week = Math.floor(i / 7);
+                const weekday = i % 7;
+                let color = heatColors[0];
+                if (day.date > today) {
+                    color = 'transparent';
+                } else if (day.sessions > 0) {
+                    color = heatColors[Math.min(4, Math.ceil((day.sessions / max) * 4))];
+                }
+                ctx.fillStyle = color;
+                ctx.fillRect(week * 12 + 1, weekday * 12 + 1, 10, 10);
+                if (day.date === today) {
+                    ctx.strokeStyle = colors.fruit;
+                    ctx.strokeRect(week * 12 + 0.5, weekday * 12 + 0.5, 11, 11);
+                }
+            });
+        }
+
+        // Horizontal pixel bars, one row per language (top 6)
+        const languageColors = [colors.leaf, colors.fruit, colors.water, colors.hay, colors.leafLight, colors.fruitShine];
+
+        function drawLanguageChart(canvas, languages) {
+            const ctx = canvas.getContext('2d');
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+            const top = languages.slice(0, 6);
+            const total = languages.reduce((sum, [, seconds]) => sum + seconds, 0);
+            ctx.font = '14px VT323, monospace';
+            ctx.textAlign = 'left';
+            if (total === 0) {
+                ctx.fillStyle = colors.label;
+                ctx.fillText('No editor activity recorded yet', 4, 20);
+                return;
+            }
+
+            const labelCols = 24;
+            const barCols = Math.floor(canvas.width / PIXEL) - labelCols - 10;
+            top.forEach(([name, seconds], i) => {
+                const row = i * 5 + 1;
+                const share = seconds / total;
+                ctx.fillStyle = colors.label;
+                ctx.fillText(name, 4, (row + 3) * PIXEL);
+                for (let x = 0; x < Math.max(1, Math.round(share * barCols)); x++) {
+                    for (let y = 0; y < 3; y++) {
+                        drawPixel(ctx, labelCols + x, row + y, languageColors[i]);
+                    }
+                }
+                ctx.fillText(Math.round(share * 100) + '%', (labelCols + barCols + 2) * PIXEL, (row + 3) * PIXEL);
+            });
+        }
+
+        function render() {
+            if (!lastData) return;
+            const periods = lastData[currentRange];
+
+            drawBarChart(document.getElementById('focusChart'), periods, p => [
+                { value: p.focusMinutes, color: colors.leaf, shine: colors.leafLight }
+            ]);
+            drawBarChart(document.getElementById('fruitChart'), periods, p => [
+                { value: p.fruits, color: colors.fruit, shine: colors.fruitShine }
+            ]);
+            drawBarChart(document.getElementById('sessionChart'), periods, p => [
+                { value: p.sessions, color: colors.stem, shine: colors.leaf }
+            ]);
+            drawBarChart(document.getElementById('breakChart'), periods, p => [
+                { value: p.shortBreaks, color: colors.hay },
+                { value: p.longBreaks, color: colors.water }
+            ]);
+            drawLanguageChart(document.getElementById('languageChart'), lastData.languages[currentRange]);
+            drawHeatmap(lastData.heatmap, lastData.today);
+        }
+
+        document.querySelectorAll('.tab').forEach(tab => {
+            tab.addEventListener('click', () => {
+                document.querySelectorAll('.tab').forEach(t => t.classList.remove('active'));
+                tab.classList.add('active');
+                currentRange = tab.dataset.range;
+                render();
+            });
+        });
+
+        const projectFilter = document.getElementById('projectFilter');
+        projectFilter.addEventListener('change', () => {
+            vscode.postMessage({ command: 'setProject', project: projectFilter.value });
+        });
+
+        function updateProjectFilter(projects, selected) {
+            projectFilter.innerHTML = '';
+            [''].concat(projects).forEach(p => {
+                const option = document.createElement('option');
+                option.value = p;
+                option.textContent = p || 'All projects';
+                projectFilter.appendChild(option);
+            });
+            projectFilter.value = selected || '';
+        }
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.type === 'update') {
+                lastData = message;
+                updateProjectFilter(message.projects, message.project);
+                const hours = Math.floor(message.totals.focusMinutes / 60);
+                const minutes = message.totals.focusMinutes % 60;
+                document.getElementById('totals').textContent =
+                    message.totals.sessions + ' sessions · ' + hours + 'h ' + minutes + 'm focused all time' + (message.project ? ' in ' + message.project : '');
+                render();
+            }
+        });
+
+        // Redraw once the pixel font has loaded so labels use it
+        document.fonts.ready.then(render);
+
+        vscode.postMessage({ command: 'ready' });
+    </script>
+</body>
+</html>`;
+    }
+}
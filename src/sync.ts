@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+import { SessionHistory, isSessionRecord } from './history';
+import { LedgerEntry, isLedgerEntry } from './shop';
+
+// Settings Sync is last-writer-wins per key, so these keys only carry data between
+// machines. Each machine keeps its own copy and merges on read, which means a
+// machine that overwrites the synced history still can't lose another's sessions:
+// the other machine re-adds them the next time it merges.
+const SYNCED_HISTORY_KEY = 'syncedHistory';
+const SYNCED_GARDEN_KEY = 'syncedGarden';
+const SYNCED_DELETED_KEY = 'syncedDeletedSessions';
+const SYNCED_LEDGER_KEY = 'syncedFruitLedger';
+
+export interface GardenSnapshot {
+    machineId: string;
+    updatedAt: number;
+    isTimerRunning: boolean;
+    currentSessionSeconds: number;
+    sessionStartedAt?: number;
+    completedSessions: number;
+    species?: string;   // absent from machines that only grew tomatoes
+}
+
+function isString(value: unknown): value is string {
+    return typeof value === 'string';
+}
+
+function isSyncEnabled(): boolean {
+    return vscode.workspace.getConfiguration('pomodoroPlants').get('syncAcrossMachines', true);
+}
+
+export class GardenSync {
+    private readonly _machineId = vscode.env.machineId;
+    private _lastGardenUpdate = 0;
+    private readonly _onDidReceiveGarden = new vscode.EventEmitter<GardenSnapshot>();
+    private readonly _onDidReceiveLedger = new vscode.EventEmitter<LedgerEntry[]>();
+
+    public readonly onDidReceiveGarden = this._onDidReceiveGarden.event;
+    public readonly onDidReceiveLedger = this._onDidReceiveLedger.event;
+
+    constructor(
+        private readonly _context: vscode.ExtensionContext,
+        private readonly _history: SessionHistory
+    ) {
+        this.updateSyncKeys();
+        this._history.onDidChange(() => this._pushHistory());
+    }
+
+    public updateSyncKeys() {
+        this._context.globalState.setKeysForSync(isSyncEnabled() ? [SYNCED_HISTORY_KEY, SYNCED_DELETED_KEY, SYNCED_LEDGER_KEY, SYNCED_GARDEN_KEY] : []);
+    }
+
+    // Merge whatever other machines have synced into our local state
+    public pull() {
+        if (!isSyncEnabled()) return;
+
+        const remote = this._getSyncedList(SYNCED_HISTORY_KEY, isSessionRecord);
+        const remoteDeleted = this._getSyncedList(SYNCED_DELETED_KEY, isString);
+        if (!this._history.mergeRecords(remote, remoteDeleted)) {
+            // Nothing new locally, but the synced copy may be missing our sessions
+            this._pushHistory();
+        }
+
+        // Whoever listens merges these into the inventory and pushes back what the synced copy lacks
+        this._onDidReceiveLedger.fire(this._getSyncedList(SYNCED_LEDGER_KEY, isLedgerEntry));
+
+        const garden = this._context.globalState.get<GardenSnapshot>(SYNCED_GARDEN_KEY);
+        if (garden && garden.machineId !== this._machineId && garden.updatedAt > this._lastGardenUpdate) {
+            this._lastGardenUpdate = garden.updatedAt;
+            this._onDidReceiveGarden.fire(garden);
+        }
+    }
+
+    public publishGarden(snapshot: Omit<GardenSnapshot, 'machineId' | 'updatedAt'>) {
+        if (!isSyncEnabled()) return;
+        this._lastGardenUpdate = Date.now();
+        this._context.globalState.update(SYNCED_GARDEN_KEY, {
+            ...snapshot,
+            machineId: this._machineId,
+            updatedAt: this._lastGardenUpdate
+        });
+    }
+
+    // Adds our fruit ledger entries to the synced copy, keeping those of other machines
+    public pushLedger(local: readonly LedgerEntry[]) {
+        if (!isSyncEnabled()) return;
+        const remote = this._getSyncedList(SYNCED_LEDGER_KEY, isLedgerEntry);
+        const remoteIds = new Set(remote.map(entry => entry.id));
+        const missing = local.filter(entry => !remoteIds.has(entry.id));
+        if (missing.length > 0) {
+            this._context.globalState.update(SYNCED_LEDGER_KEY, [...remote, ...missing]);
+        }
+    }
+
+    // Synced keys may have been written by another (possibly older) version of the extension,
+    // so a value that isn't a list counts as empty and entries that don't check out are dropped
+    private _getSyncedList<T>(key: string, isValid: (value: unknown) => value is T): T[] {
+        const value = this._context.globalState.get<unknown>(key);
+        return Array.isArray(value) ? value.filter(isValid) : [];
+    }
+
+    private _pushHistory() {
+        if (!isSyncEnabled()) return;
+        const remote = this._getSyncedList(SYNCED_HISTORY_KEY, isSessionRecord);
+        const remoteDeleted = this._getSyncedList(SYNCED_DELETED_KEY, isString);
+        const deleted = [...new Set([...remoteDeleted, ...this._history.getDeletedIds()])];
+        const deletedIds = new Set(deleted);
+
+        const local = this._history.getAll();
+        const localIds = new Set(local.map(r => r.id));
+        // Keep remote-only records in the synced copy until their owner merges them
+        const union = [...local, ...remote.filter(r => !localIds.has(r.id) && !deletedIds.has(r.id))];
+        this._context.globalState.update(SYNCED_HISTORY_KEY, union);
+        this._context.globalState.update(SYNCED_DELETED_KEY, deleted);
+    }
+}
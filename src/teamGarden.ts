@@ -0,0 +1,202 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionRecord, getDateKey } from './history';
+
+// One line per harvest. Teammates only ever append, and the file is marked
+// merge=union, so git combines concurrent appends without conflicts.
+export interface TeamHarvest {
+    id: string;
+    member: string;
+    endedAt: number;
+    focusSeconds: number;
+    branch?: string;
+}
+
+export interface TeamMemberSummary {
+    member: string;
+    fruits: number;
+    isYou: boolean;
+}
+
+export interface TeamSummary {
+    members: TeamMemberSummary[];
+    total: number;
+}
+
+interface TeamSettings {
+    enabled: boolean;
+    file?: string;          // absent when the setting points outside the workspace folder
+    memberName: string;
+}
+
+// The team file is committed with the repository, so it has to stay inside the workspace
+// folder: absolute paths and paths that climb out of it with ../ are refused
+function toWorkspacePath(file: string): string | undefined {
+    const normalized = path.posix.normalize(file.replace(/\\/g, '/'));
+    if (path.posix.isAbsolute(normalized) || /^[a-zA-Z]:/.test(normalized)) return undefined;
+    if (normalized === '.' || normalized === '..' || normalized.startsWith('../')) return undefined;
+    return normalized;
+}
+
+function getTeamSettings(): TeamSettings {
+    const config = vscode.workspace.getConfiguration('pomodoroPlants');
+    return {
+        enabled: config.get('teamGarden', false),
+        file: toWorkspacePath(config.get('teamGardenFile', '.pomodoro/garden.jsonl')),
+        memberName: config.get('teamMemberName', '') || os.userInfo().username
+    };
+}
+
+function isTeamHarvest(value: unknown): value is TeamHarvest {
+    const entry = value as TeamHarvest;
+    return typeof entry === 'object' && entry !== null &&
+        typeof entry.id === 'string' && typeof entry.member === 'string' &&
+        typeof entry.endedAt === 'number' && typeof entry.focusSeconds === 'number';
+}
+
+// Lines that aren't harvests (half-written, hand edits, leftover conflict markers) are skipped,
+// and a harvest that appears twice after a rebase is only counted once
+function parseTeamFile(text: string): TeamHarvest[] {
+    const harvests = new Map<string, TeamHarvest>();
+    for (const line of text.split(/\r?\n/)) {
+        if (!line.trim()) continue;
+        try {
+            const entry = JSON.parse(line);
+            if (isTeamHarvest(entry)) {
+                harvests.set(entry.id, entry);
+            }
+        } catch {
+            // Not a harvest line
+        }
+    }
+    return [...harvests.values()];
+}
+
+export class TeamGarden implements vscode.Disposable {
+    private _harvests: TeamHarvest[] = [];
+    private _watchers: vscode.Disposable[] = [];
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor() {
+        this.reloadSettings();
+    }
+
+    public dispose() {
+        this._watchers.forEach(w => w.dispose());
+        this._onDidChange.dispose();
+    }
+
+    public reloadSettings() {
+        this._watchers.forEach(w => w.dispose());
+        this._watchers = [];
+        const settings = getTeamSettings();
+        if (settings.enabled && !settings.file) {
+            vscode.window.showWarningMessage(
+                '🌱 pomodoroPlants.teamGardenFile has to be a path inside the workspace, so the team garden is off.'
+            );
+        }
+        if (settings.enabled && settings.file) {
+            for (const folder of vscode.workspace.workspaceFolders ?? []) {
+                const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, settings.file));
+                watcher.onDidCreate(() => this.refresh());
+                watcher.onDidChange(() => this.refresh());
+                watcher.onDidDelete(() => this.refresh());
+                this._watchers.push(watcher);
+            }
+        }
+        this.refresh();
+    }
+
+    // Re-read the team file from every workspace folder that has one
+    public async refresh() {
+        const settings = getTeamSettings();
+        const harvests: TeamHarvest[] = [];
+        if (settings.enabled && settings.file) {
+            for (const folder of vscode.workspace.workspaceFolders ?? []) {
+                try {
+                    const data = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, settings.file));
+                    harvests.push(...parseTeamFile(Buffer.from(data).toString('utf8')));
+                } catch {
+                    // This folder has no team garden yet
+                }
+            }
+        }
+        this._harvests = harvests;
+        this._onDidChange.fire();
+    }
+
+    public getToday(): TeamSummary | undefined {
+        const settings = getTeamSettings();
+        if (!settings.enabled) return undefined;
+
+        const today = getDateKey();
+        const counts = new Map<string, number>();
+        const seen = new Set<string>();
+        for (const harvest of this._harvests) {
+            if (seen.has(harvest.id) || getDateKey(harvest.endedAt) !== today) continue;
+            seen.add(harvest.id);
+            counts.set(harvest.member, (counts.get(harvest.member) ?? 0) + 1);
+        }
+        const members = [...counts.entries()]
+            .map(([member, fruits]) => ({ member, fruits, isYou: member === settings.memberName }))
+            .sort((a, b) => b.fruits - a.fruits || a.member.localeCompare(b.member));
+        return { members, total: members.reduce((sum, m) => sum + m.fruits, 0) };
+    }
+
+    // Appends a completed session to the team file of the folder it was worked in
+    public async recordHarvest(record: SessionRecord) {
+        const settings = getTeamSettings();
+        if (!settings.enabled || !settings.file) return;
+
+        const folder = (record.folderUri && vscode.workspace.getWorkspaceFolder(vscode.Uri.parse(record.folderUri)))
+            || vscode.workspace.workspaceFolders?.[0];
+        if (!folder) return;
+
+        const harvest: TeamHarvest = {
+            id: record.id,
+            member: settings.memberName,
+            endedAt: record.endedAt,
+            focusSeconds: record.focusSeconds,
+            branch: record.branch
+        };
+        const uri = vscode.Uri.joinPath(folder.uri, settings.file);
+        await this._ensureUnionMerge(uri);
+
+        let text = '';
+        try {
+            text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        } catch {
+            // First harvest in this repository
+        }
+        if (text && !text.endsWith('\n')) {
+            text += '\n';
+        }
+        text += JSON.stringify(harvest) + '\n';
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(text, 'utf8'));
+        await this.refresh();
+    }
+
+    // Tell git to keep both sides' lines when teammates append at the same time
+    private async _ensureUnionMerge(uri: vscode.Uri) {
+        const folder = vscode.Uri.joinPath(uri, '..');
+        const attributes = vscode.Uri.joinPath(folder, '.gitattributes');
+        const fileName = uri.path.split('/').pop();
+        const rule = `${fileName} merge=union`;
+
+        await vscode.workspace.fs.createDirectory(folder);
+        let text = '';
+        try {
+            text = Buffer.from(await vscode.workspace.fs.readFile(attributes)).toString('utf8');
+        } catch {
+            // No attributes file yet
+        }
+        if (text.split(/\r?\n/).some(line => line.trim() === rule)) return;
+        if (text && !text.endsWith('\n')) {
+            text += '\n';
+        }
+        await vscode.workspace.fs.writeFile(attributes, Buffer.from(text + rule + '\n', 'utf8'));
+    }
+}
@@ -0,0 +1,48 @@
+import './vscode';
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { GARDEN_STATE_VERSION, parseGardenState } from '../gardenState';
+
+// Saves from before schema versions (v1) have no schemaVersion field
+function save(version: number, fields: Record<string, unknown> = {}): Record<string, unknown> {
+    return version === 1 ? fields : { schemaVersion: version, ...fields };
+}
+
+describe('parseGardenState', () => {
+    for (let version = 1; version <= GARDEN_STATE_VERSION; version++) {
+        it(`fills in every missing field of a schema ${version} save`, () => {
+            const { state } = parseGardenState(save(version));
+            assert.strictEqual(state.schemaVersion, GARDEN_STATE_VERSION);
+            assert.deepStrictEqual(parseGardenState(state).problems, []);
+        });
+
+        it(`repairs damaged fields of a schema ${version} save`, () => {
+            const { state, problems } = parseGardenState(save(version, {
+                currentSessionSeconds: -1,
+                species: 7,
+                inventory: null,
+                bredSeeds: {},
+                avatar: 'farmer'
+            }));
+            assert.ok(problems.length > 0);
+            assert.deepStrictEqual(parseGardenState(state).problems, []);
+        });
+    }
+
+    it('starts over when the save is not an object or comes from a newer version', () => {
+        for (const saved of [null, 'garden', [], { schemaVersion: GARDEN_STATE_VERSION + 1 }, { schemaVersion: 'two' }]) {
+            const { state, problems } = parseGardenState(saved);
+            assert.strictEqual(state.schemaVersion, GARDEN_STATE_VERSION);
+            assert.strictEqual(problems.length, 1);
+        }
+    });
+
+    it('turns fruit spent and earned before the ledger into ledger entries', () => {
+        const { state } = parseGardenState(save(9, {
+            inventory: { owned: ['sunflower-seeds'], spent: 5, bonus: 2, decorations: [] }
+        }));
+        assert.deepStrictEqual(state.inventory.owned, ['sunflower-seeds']);
+        assert.deepStrictEqual(state.inventory.ledger.map(entry => [entry.fruit, entry.item]),
+            [[0, 'sunflower-seeds'], [-5, undefined], [2, undefined]]);
+    });
+});
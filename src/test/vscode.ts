@@ -0,0 +1,9 @@
+import Module = require('module');
+
+// Unit tests run in plain Node rather than in VS Code. The modules they cover only use the
+// vscode API once called, not while loading, so an empty module stands in for it.
+const loader = Module as unknown as { _load(request: string, ...rest: unknown[]): unknown };
+const load = loader._load;
+loader._load = function (request: string, ...rest: unknown[]) {
+    return request === 'vscode' ? {} : load.call(this, request, ...rest);
+};
@@ -0,0 +1,46 @@
+import { SessionRecord, getDateKey, isHarvest } from './history';
+import { DailyGoal } from './goal';
+
+export type WeatherKind = 'clear' | 'sunny' | 'cloudy' | 'rainy' | 'rainbow';
+
+export interface Weather {
+    kind: WeatherKind;
+    reason: string;      // shown when hovering the sky
+}
+
+// How many days back (today included) the weather looks
+const WEATHER_DAYS = 3;
+// A shower follows a break taken in full for this long
+const RAIN_MS = 60 * 60 * 1000;
+
+// The garden's sky reflects the last few days of the session history. A met daily goal
+// brings a rainbow, a full break a shower, and after that abandoned sessions and lost
+// focus cloud over what would otherwise be sunshine from harvesting day after day.
+export function getWeather(records: readonly SessionRecord[], goal?: DailyGoal, now: Date = new Date()): Weather {
+    if (goal && goal.today >= goal.target) {
+        return { kind: 'rainbow', reason: `🌈 You met today's goal of ${goal.target}` };
+    }
+
+    const since = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (WEATHER_DAYS - 1)).getTime();
+    const recent = records.filter(r => r.endedAt >= since && r.endedAt <= now.getTime());
+    const lastBreak = [...recent].reverse().find(r => r.breakTaken !== undefined);
+    if (lastBreak?.breakTaken && now.getTime() - (lastBreak.endedAt + (lastBreak.breakSeconds ?? 0) * 1000) < RAIN_MS) {
+        return { kind: 'rainy', reason: '🌧️ Your full break is watering the garden' };
+    }
+
+    const harvests = recent.filter(isHarvest);
+    const abandoned = recent.length - harvests.length;
+    const focusLosses = harvests.reduce((sum, r) => sum + (r.focusLossPauses ?? 0), 0);
+    if (abandoned >= 2 && abandoned * 2 >= harvests.length) {
+        return { kind: 'cloudy', reason: `☁️ ${abandoned} sessions abandoned in the last ${WEATHER_DAYS} days` };
+    }
+    if (focusLosses >= 3 && focusLosses >= harvests.length * 2) {
+        return { kind: 'cloudy', reason: `☁️ Focus wandered ${focusLosses} times in the last ${WEATHER_DAYS} days` };
+    }
+
+    const days = new Set(harvests.map(r => getDateKey(r.endedAt))).size;
+    if (days >= 2) {
+        return { kind: 'sunny', reason: `☀️ You harvested on ${days} of the last ${WEATHER_DAYS} days` };
+    }
+    return { kind: 'clear', reason: 'Harvest a few days in a row to bring out the sun' };
+}